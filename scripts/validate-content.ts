@@ -0,0 +1,37 @@
+/**
+ * Checks the front matter of every post in `_posts`, author in `_authors`
+ * and posting in `_careers`, and exits non-zero listing each problem, so
+ * broken content is caught before `next build`.
+ *
+ *   npm run validate
+ */
+import { loadPosts } from "@/lib/api";
+import { getAllAuthors } from "@/lib/authors";
+import { getAllJobs } from "@/lib/careers";
+import { ContentValidationError, formatContentIssues } from "@/lib/post-schema";
+
+const { posts, ...loaded } = loadPosts();
+const issues = [...loaded.issues];
+
+// Number of valid entries, with any problems added to `issues`
+function check(load: () => unknown[]) {
+  try {
+    return load().length;
+  } catch (error) {
+    if (!(error instanceof ContentValidationError)) throw error;
+    issues.push(...error.issues);
+    return 0;
+  }
+}
+
+const authorCount = check(getAllAuthors);
+const jobCount = check(getAllJobs);
+
+if (issues.length > 0) {
+  console.error(formatContentIssues(issues));
+  process.exit(1);
+}
+
+console.log(
+  `All ${posts.length} posts, ${authorCount} authors and ${jobCount} job postings have valid front matter.`,
+);
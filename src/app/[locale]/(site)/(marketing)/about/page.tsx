@@ -0,0 +1,37 @@
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { pageOpenGraph } from "@/lib/og";
+import { Users } from "lucide-react";
+import type { Metadata } from "next";
+
+export default async function AboutPage(props: Params) {
+  const locale = setRequestLocale((await props.params).locale);
+  const messages = getMessages(locale);
+
+  return (
+    <div className="text-center">
+      <Users size={80} className="text-indigo-600 mx-auto mb-6" />
+      <h1 className="text-4xl font-extrabold mb-4">{messages.about.heading}</h1>
+      <p className="text-xl text-gray-600">{messages.about.lead}</p>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const locale = resolveLocale((await props.params).locale);
+  const { about } = getMessages(locale);
+
+  return {
+    title: about.title,
+    description: about.description,
+    alternates: localeAlternates("/about", locale),
+    openGraph: pageOpenGraph("/about", locale, about.title),
+  };
+}
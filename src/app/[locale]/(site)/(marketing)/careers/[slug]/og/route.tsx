@@ -0,0 +1,26 @@
+import { getJobBySlug } from "@/lib/careers";
+import { resolveLocale } from "@/lib/i18n/config";
+import { formatMessage } from "@/lib/i18n/format";
+import { getMessages } from "@/lib/i18n/messages";
+import { renderOgCard } from "@/lib/og";
+
+export const dynamic = "force-static";
+
+type Context = {
+  params: Promise<{ locale: string; slug: string }>;
+};
+
+export async function GET(_request: Request, { params }: Context) {
+  const { locale, slug } = await params;
+  const { careers } = getMessages(resolveLocale(locale));
+  const job = getJobBySlug(slug);
+  if (!job) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  return renderOgCard({
+    eyebrow: formatMessage(careers.ogEyebrow, { team: job.team }),
+    title: job.title,
+    description: `${job.location} · ${job.summary}`,
+  });
+}
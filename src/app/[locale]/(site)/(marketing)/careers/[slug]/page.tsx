@@ -0,0 +1,119 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import DateFormatter from "@/app/_components/date-formatter";
+import { JobMeta } from "@/app/_components/job-meta";
+import Link from "@/app/_components/link";
+import { PostBody } from "@/app/_components/post-body";
+import { getAllJobs, getJobBySlug, getJobPostingJsonLd } from "@/lib/careers";
+import { contactFormHref } from "@/lib/contact/prefill";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { formatMessage } from "@/lib/i18n/format";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { cachedMarkdownToHtml } from "@/lib/markdown-cache";
+import { pageOpenGraph } from "@/lib/og";
+
+// Only the postings in _careers exist; anything else is a 404.
+export const dynamicParams = false;
+
+export default async function JobPage(props: Params) {
+  const params = await props.params;
+  const { careers } = getMessages(setRequestLocale(params.locale));
+  const job = getJobBySlug(params.slug);
+
+  if (!job) {
+    return notFound();
+  }
+
+  const content = await cachedMarkdownToHtml(job.content || "");
+
+  return (
+    <article className="w-full max-w-3xl mx-auto self-start">
+      {!job.closed && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(getJobPostingJsonLd(job, content)).replace(
+              /</g,
+              "\\u003c",
+            ),
+          }}
+        />
+      )}
+      <Link
+        href="/careers"
+        className="text-sm text-indigo-600 hover:underline"
+      >
+        {careers.allRoles}
+      </Link>
+      <h1 className="text-4xl font-extrabold mt-4 mb-4">{job.title}</h1>
+      <JobMeta
+        team={job.team}
+        location={job.location}
+        employmentType={job.employmentType}
+      />
+      <p className="mt-2 text-sm text-gray-500">
+        {careers.posted} <DateFormatter dateString={job.postedDate} />
+      </p>
+      {job.closed && (
+        <p
+          className="mt-6 p-4 rounded-lg bg-gray-100 text-gray-700"
+          role="status"
+        >
+          {careers.closed}
+        </p>
+      )}
+      <PostBody content={content} />
+      {!job.closed && (
+        <div className="max-w-2xl mx-auto mt-10">
+          <Link
+            href={contactFormHref({
+              topic: "careers",
+              message: formatMessage(careers.applyMessage, {
+                title: job.title,
+              }),
+            })}
+            className="inline-block px-6 py-3 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700"
+          >
+            {careers.apply}
+          </Link>
+        </div>
+      )}
+    </article>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+    slug: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const params = await props.params;
+  const locale = resolveLocale(params.locale);
+  const job = getJobBySlug(params.slug);
+
+  if (!job) {
+    return notFound();
+  }
+
+  const { careers } = getMessages(locale);
+  const path = `/careers/${job.slug}`;
+
+  return {
+    title: formatMessage(careers.jobTitle, { title: job.title }),
+    description: job.summary,
+    alternates: localeAlternates(path, locale),
+    openGraph: pageOpenGraph(path, locale, careers.ogAlt),
+  };
+}
+
+export async function generateStaticParams() {
+  const jobs = getAllJobs();
+
+  return jobs.map((job) => ({
+    slug: job.slug,
+  }));
+}
@@ -0,0 +1,43 @@
+import { JobList } from "@/app/_components/job-list";
+import { getAllJobs } from "@/lib/careers";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { pageOpenGraph } from "@/lib/og";
+import type { Metadata } from "next";
+
+export default async function CareersPage(props: Params) {
+  const locale = setRequestLocale((await props.params).locale);
+  const messages = getMessages(locale);
+  const jobs = getAllJobs()
+    .filter((job) => !job.closed)
+    .map(({ content, ...job }) => job);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto self-start">
+      <h1 className="text-4xl font-extrabold mb-4">
+        {messages.careers.heading}
+      </h1>
+      <p className="text-xl text-gray-600 mb-10">{messages.careers.lead}</p>
+      <JobList jobs={jobs} />
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const locale = resolveLocale((await props.params).locale);
+  const { careers } = getMessages(locale);
+
+  return {
+    title: careers.title,
+    description: careers.description,
+    alternates: localeAlternates("/careers", locale),
+    openGraph: pageOpenGraph("/careers", locale, careers.title),
+  };
+}
@@ -0,0 +1,45 @@
+import { ContactForm } from "@/app/_components/contact-form";
+import { readContactPrefill } from "@/lib/contact/prefill";
+import { issueFormToken } from "@/lib/contact/spam";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { pageOpenGraph } from "@/lib/og";
+import { Mail } from "lucide-react";
+import type { Metadata } from "next";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function ContactPage(props: Props) {
+  const locale = setRequestLocale((await props.params).locale);
+  const messages = getMessages(locale);
+  const prefill = readContactPrefill(await props.searchParams);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto self-start">
+      <div className="text-center mb-10">
+        <Mail size={80} className="text-indigo-600 mx-auto mb-6" />
+        <h1 className="text-4xl font-extrabold mb-4">
+          {messages.contact.heading}
+        </h1>
+        <p className="text-xl text-gray-600">{messages.contact.lead}</p>
+      </div>
+      <ContactForm initialValues={prefill} formToken={issueFormToken()} />
+    </div>
+  );
+}
+
+export async function generateMetadata(props: Props): Promise<Metadata> {
+  const locale = resolveLocale((await props.params).locale);
+  const { contact } = getMessages(locale);
+
+  return {
+    title: contact.title,
+    description: contact.description,
+    alternates: localeAlternates("/contact", locale),
+    openGraph: pageOpenGraph("/contact", locale, contact.title),
+  };
+}
@@ -0,0 +1,13 @@
+export default function MarketingLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className="container mx-auto p-4">
+      <div className="bg-white p-6 rounded-lg shadow-lg min-h-[70vh] flex items-center justify-center">
+        {children}
+      </div>
+    </div>
+  );
+}
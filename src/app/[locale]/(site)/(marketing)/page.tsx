@@ -0,0 +1,32 @@
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { Rocket } from "lucide-react";
+import type { Metadata } from "next";
+
+export default async function HomePage(props: Params) {
+  const locale = setRequestLocale((await props.params).locale);
+  const messages = getMessages(locale);
+
+  return (
+    <div className="text-center">
+      <Rocket size={80} className="text-indigo-600 mx-auto mb-6" />
+      <h1 className="text-4xl font-extrabold mb-4">{messages.home.title}</h1>
+      <p className="text-xl text-gray-600">{messages.home.description}</p>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const locale = resolveLocale((await props.params).locale);
+
+  return {
+    alternates: localeAlternates("/", locale),
+  };
+}
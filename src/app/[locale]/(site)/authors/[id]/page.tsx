@@ -0,0 +1,125 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Container from "@/app/_components/container";
+import Header from "@/app/_components/header";
+import { MoreStories } from "@/app/_components/more-stories";
+import { AuthorSocial } from "@/interfaces/author";
+import { getPostsByAuthor } from "@/lib/api";
+import { getAllAuthors, getAuthorById } from "@/lib/authors";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { formatMessage } from "@/lib/i18n/format";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { cachedMarkdownToHtml } from "@/lib/markdown-cache";
+import markdownStyles from "@/app/_components/markdown-styles.module.css";
+
+export const dynamicParams = false;
+
+export default async function AuthorPage(props: Params) {
+  const params = await props.params;
+  const locale = setRequestLocale(params.locale);
+  const author = getAuthorById(params.id);
+
+  if (!author) {
+    return notFound();
+  }
+
+  const { authors } = getMessages(locale);
+  const bio = await cachedMarkdownToHtml(author.bio);
+  const posts = getPostsByAuthor(author.id, locale);
+  const links = (Object.keys(authors.social) as (keyof AuthorSocial)[]).filter(
+    (key) => author.social[key],
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-900">
+      <Container>
+        <Header />
+        <section className="mb-20 flex flex-col items-center gap-8 md:flex-row md:items-start">
+          <img
+            src={author.picture}
+            alt={author.name}
+            className="h-32 w-32 shrink-0 rounded-full"
+          />
+          <div className="max-w-2xl">
+            <h1 className="text-4xl md:text-5xl font-bold tracking-tighter leading-tight">
+              {author.name}
+            </h1>
+            {author.role && (
+              <p className="mt-2 text-lg text-neutral-500">{author.role}</p>
+            )}
+            <div
+              className={markdownStyles["markdown"]}
+              dangerouslySetInnerHTML={{ __html: bio }}
+            />
+            {links.length > 0 && (
+              <ul className="flex flex-wrap gap-x-6 gap-y-2">
+                {links.map((key) => (
+                  <li key={key}>
+                    <a
+                      href={author.social[key]}
+                      target="_blank"
+                      rel="noopener noreferrer me"
+                      className="underline hover:text-indigo-600"
+                    >
+                      {authors.social[key]}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+        {posts.length > 0 && (
+          <MoreStories
+            title={formatMessage(authors.postsBy, { name: author.name })}
+            posts={posts}
+          />
+        )}
+      </Container>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+    id: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const params = await props.params;
+  const locale = resolveLocale(params.locale);
+  const author = getAuthorById(params.id);
+
+  if (!author) {
+    return notFound();
+  }
+
+  const { authors } = getMessages(locale);
+
+  return {
+    title: author.name,
+    description: author.role
+      ? formatMessage(authors.descriptionWithRole, {
+          name: author.name,
+          role: author.role,
+        })
+      : `${formatMessage(authors.postsBy, { name: author.name })}.`,
+    openGraph: {
+      type: "profile",
+      images: [author.picture],
+    },
+    twitter: {
+      card: "summary",
+    },
+    alternates: localeAlternates(`/authors/${author.id}`, locale),
+  };
+}
+
+export async function generateStaticParams() {
+  return getAllAuthors().map((author) => ({
+    id: author.id,
+  }));
+}
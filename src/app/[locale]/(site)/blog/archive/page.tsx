@@ -0,0 +1,85 @@
+import Container from "@/app/_components/container";
+import DateFormatter from "@/app/_components/date-formatter";
+import Header from "@/app/_components/header";
+import Link from "@/app/_components/link";
+import { getPostArchive } from "@/lib/api";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { formatMonth } from "@/lib/i18n/format";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { pageOpenGraph } from "@/lib/og";
+import type { Metadata } from "next";
+
+export default async function ArchivePage(props: Params) {
+  const locale = setRequestLocale((await props.params).locale);
+  const archive = getPostArchive(locale);
+
+  return (
+    <div className="bg-white dark:bg-slate-900">
+      <Container>
+        <Header />
+        <h1 className="mb-12 text-5xl md:text-7xl font-bold tracking-tighter leading-tight">
+          {getMessages(locale).blog.archive}
+        </h1>
+        <div className="mb-32 space-y-12">
+          {archive.map(({ year, count, months }) => (
+            <section key={year} aria-labelledby={`archive-${year}`}>
+              <h2
+                id={`archive-${year}`}
+                className="mb-6 text-3xl md:text-4xl font-bold tracking-tighter"
+              >
+                {year}{" "}
+                <span className="text-xl font-normal text-neutral-500">
+                  ({count})
+                </span>
+              </h2>
+              {months.map(({ month, count, posts }) => (
+                <div key={month} className="mb-6">
+                  <h3 className="mb-2 text-xl font-bold">
+                    {formatMonth(month, locale)}{" "}
+                    <span className="font-normal text-neutral-500">
+                      ({count})
+                    </span>
+                  </h3>
+                  <ul className="space-y-1 text-lg">
+                    {posts.map((post) => (
+                      <li key={post.slug}>
+                        <span className="mr-3 text-neutral-500">
+                          <DateFormatter dateString={post.date} />
+                        </span>
+                        <Link
+                          href={`/posts/${post.slug}`}
+                          className="hover:underline"
+                        >
+                          {post.title}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </section>
+          ))}
+        </div>
+      </Container>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const locale = resolveLocale((await props.params).locale);
+  const { blog } = getMessages(locale);
+
+  return {
+    title: blog.archiveTitle,
+    description: blog.archiveDescription,
+    alternates: localeAlternates("/blog/archive", locale),
+    openGraph: pageOpenGraph("/blog", locale, blog.title),
+  };
+}
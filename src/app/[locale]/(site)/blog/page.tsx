@@ -0,0 +1,83 @@
+import Alert from "@/app/_components/alert";
+import Container from "@/app/_components/container";
+import { HeroPost } from "@/app/_components/hero-post";
+import { Intro } from "@/app/_components/intro";
+import Link from "@/app/_components/link";
+import { MoreStories } from "@/app/_components/more-stories";
+import { Pagination, PaginationLinks } from "@/app/_components/pagination";
+import { PostSearch } from "@/app/_components/post-search";
+import { TagCloud } from "@/app/_components/tag-cloud";
+import { getAllTags, getPostsPage } from "@/lib/api";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { pageOpenGraph } from "@/lib/og";
+import type { Metadata } from "next";
+
+export default async function BlogIndex(props: Params) {
+  const locale = setRequestLocale((await props.params).locale);
+  const messages = getMessages(locale);
+  const { posts, page, totalPages } = getPostsPage(1, locale) ?? {
+    posts: [],
+    page: 1,
+    totalPages: 1,
+  };
+
+  const heroPost = posts[0];
+
+  const morePosts = posts.slice(1);
+
+  return (
+    <div className="bg-white dark:bg-slate-900">
+      <PaginationLinks page={page} totalPages={totalPages} />
+      <Alert />
+      <Container>
+        <Intro />
+        <PostSearch />
+        {heroPost && (
+          <HeroPost
+            title={heroPost.title}
+            coverImage={heroPost.coverImage}
+            date={heroPost.date}
+            author={heroPost.author}
+            slug={heroPost.slug}
+            excerpt={heroPost.excerpt}
+            tags={heroPost.tags}
+            category={heroPost.category}
+            readingTime={heroPost.readingTime}
+            wordCount={heroPost.wordCount}
+          />
+        )}
+        {morePosts.length > 0 && <MoreStories posts={morePosts} />}
+        <Pagination page={page} totalPages={totalPages} />
+        <p className="mb-16 text-center text-lg">
+          <Link
+            href="/blog/archive"
+            className="underline hover:text-indigo-600"
+          >
+            {messages.blog.archiveLink}
+          </Link>
+        </p>
+        <TagCloud tags={getAllTags()} />
+      </Container>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const locale = resolveLocale((await props.params).locale);
+  const { blog } = getMessages(locale);
+
+  return {
+    title: blog.title,
+    description: blog.description,
+    alternates: localeAlternates("/blog", locale),
+    openGraph: pageOpenGraph("/blog", locale, blog.title),
+  };
+}
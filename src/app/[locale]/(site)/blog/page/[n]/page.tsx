@@ -0,0 +1,77 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Container from "@/app/_components/container";
+import Header from "@/app/_components/header";
+import { MoreStories } from "@/app/_components/more-stories";
+import { Pagination, PaginationLinks } from "@/app/_components/pagination";
+import { getPostsPage } from "@/lib/api";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { formatMessage } from "@/lib/i18n/format";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { pageOpenGraph } from "@/lib/og";
+import { blogPageHref } from "@/lib/pagination";
+
+export const dynamicParams = false;
+
+export default async function BlogPage(props: Params) {
+  const params = await props.params;
+  const locale = setRequestLocale(params.locale);
+  const postsPage = getPostsPage(Number(params.n), locale);
+
+  if (!postsPage) {
+    return notFound();
+  }
+
+  const { posts, page, totalPages } = postsPage;
+  const { blog } = getMessages(locale);
+
+  return (
+    <div className="bg-white dark:bg-slate-900">
+      <PaginationLinks page={page} totalPages={totalPages} />
+      <Container>
+        <Header />
+        <MoreStories
+          title={formatMessage(blog.pageHeading, { page, totalPages })}
+          posts={posts}
+        />
+        <Pagination page={page} totalPages={totalPages} />
+      </Container>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+    n: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const params = await props.params;
+  const locale = resolveLocale(params.locale);
+  const postsPage = getPostsPage(Number(params.n), locale);
+
+  if (!postsPage) {
+    return notFound();
+  }
+
+  const { blog } = getMessages(locale);
+
+  return {
+    title: formatMessage(blog.pageTitle, { page: postsPage.page }),
+    alternates: localeAlternates(blogPageHref(postsPage.page), locale),
+    // Every page of the listing shares the blog's card
+    openGraph: pageOpenGraph("/blog", locale, blog.title),
+  };
+}
+
+// Page 1 is /blog itself
+export async function generateStaticParams() {
+  const { totalPages } = getPostsPage(1) ?? { totalPages: 1 };
+
+  return Array.from({ length: totalPages - 1 }, (_, i) => ({
+    n: String(i + 2),
+  }));
+}
@@ -0,0 +1,71 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Container from "@/app/_components/container";
+import Header from "@/app/_components/header";
+import { MoreStories } from "@/app/_components/more-stories";
+import { getAllCategories, getPostsByCategory } from "@/lib/api";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { formatPlural } from "@/lib/i18n/format";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { categoryHref, slugFromParam } from "@/lib/taxonomy";
+
+export const dynamicParams = false;
+
+export default async function CategoryPage(props: Params) {
+  const params = await props.params;
+  const locale = setRequestLocale(params.locale);
+  const slug = slugFromParam(params.category);
+  const category = getAllCategories().find((c) => c.slug === slug);
+
+  if (!category) {
+    return notFound();
+  }
+
+  return (
+    <div className="bg-white dark:bg-slate-900">
+      <Container>
+        <Header />
+        <MoreStories
+          title={category.name}
+          posts={getPostsByCategory(category.slug, locale)}
+        />
+      </Container>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+    category: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const params = await props.params;
+  const locale = resolveLocale(params.locale);
+  const slug = slugFromParam(params.category);
+  const category = getAllCategories().find((c) => c.slug === slug);
+
+  if (!category) {
+    return notFound();
+  }
+
+  return {
+    title: category.name,
+    description: formatPlural(
+      getMessages(locale).taxonomy.categoryDescription,
+      category.count,
+      locale,
+      { category: category.name },
+    ),
+    alternates: localeAlternates(categoryHref(category.name), locale),
+  };
+}
+
+export async function generateStaticParams() {
+  return getAllCategories().map((category) => ({
+    category: category.slug,
+  }));
+}
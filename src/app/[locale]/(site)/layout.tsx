@@ -0,0 +1,23 @@
+import Chatbot from "@/app/_components/chatbot";
+import Footer from "@/app/_components/footer";
+import SiteHeader from "@/app/_components/site-header";
+import { setRequestLocale } from "@/lib/i18n/request";
+
+export default async function SiteLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}>) {
+  setRequestLocale((await params).locale);
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-100">
+      <SiteHeader />
+      <main className="flex-1">{children}</main>
+      <Footer />
+      <Chatbot />
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { canViewPost, getPostBySlug, getPostSlugs } from "@/lib/api";
+import { resolveLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { renderOgCard, renderOgImageFile } from "@/lib/og";
+
+export const dynamic = "force-static";
+
+type Context = {
+  params: Promise<{ locale: string; slug: string }>;
+};
+
+export async function GET(_request: Request, { params }: Context) {
+  const { locale: localeParam, slug } = await params;
+  if (!getPostSlugs().includes(`${slug}.md`)) {
+    return new Response("Not found", { status: 404 });
+  }
+  const locale = resolveLocale(localeParam);
+  const post = getPostBySlug(slug, locale);
+  if (!canViewPost(post)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // A hand-picked image in front matter wins over the generated card
+  if (post.ogImage?.url) {
+    return renderOgImageFile(post.ogImage.url);
+  }
+
+  return renderOgCard({
+    eyebrow: getMessages(locale).blog.ogEyebrow,
+    title: post.title,
+    author: post.author,
+    date: post.date,
+    locale,
+    coverImage: post.coverImage,
+  });
+}
@@ -0,0 +1,155 @@
+import { Metadata } from "next";
+import { draftMode } from "next/headers";
+import { notFound } from "next/navigation";
+import {
+  canViewPost,
+  getAdjacentPosts,
+  getAllPosts,
+  getPostBySlug,
+  getPostSlugs,
+  getRelatedPosts,
+} from "@/lib/api";
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  localizePath,
+  resolveLocale,
+} from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { ogImage } from "@/lib/og";
+import { renderPostContent } from "@/lib/postContent";
+import Alert from "@/app/_components/alert";
+import Container from "@/app/_components/container";
+import Header from "@/app/_components/header";
+import { MoreStories } from "@/app/_components/more-stories";
+import { PostBody } from "@/app/_components/post-body";
+import { PostHeader } from "@/app/_components/post-header";
+import { PostNavigation } from "@/app/_components/post-navigation";
+
+async function getVisiblePost(slug: string, locale: Locale) {
+  if (!getPostSlugs().includes(`${slug}.md`)) return null;
+  const post = getPostBySlug(slug, locale);
+  const { isEnabled } = await draftMode();
+  return canViewPost(post, isEnabled) ? post : null;
+}
+
+export default async function Post(props: Params) {
+  const params = await props.params;
+  const locale = setRequestLocale(params.locale);
+  const post = await getVisiblePost(params.slug, locale);
+
+  if (!post) {
+    return notFound();
+  }
+
+  const { isEnabled: draftModeEnabled } = await draftMode();
+
+  const { html, toc } = await renderPostContent(
+    post.content || "",
+    locale,
+  );
+  const relatedPosts = getRelatedPosts(post, locale);
+  const { previous, next } = getAdjacentPosts(post.slug, locale);
+  const { blog } = getMessages(locale);
+  // Untranslated posts are shown in the original language
+  const untranslated = post.locale !== locale;
+
+  return (
+    <div className="bg-white dark:bg-slate-900">
+      <Alert preview={post.preview || post.draft || draftModeEnabled} />
+      <Container>
+        <Header />
+        {untranslated && (
+          <p
+            className="max-w-2xl mx-auto mb-8 p-4 rounded-lg bg-neutral-100 text-neutral-700 dark:bg-slate-800 dark:text-slate-300"
+            role="note"
+          >
+            {blog.untranslated}
+          </p>
+        )}
+        <article
+          className="mb-32"
+          lang={untranslated ? post.locale : undefined}
+        >
+          <PostHeader
+            title={post.title}
+            coverImage={post.coverImage}
+            date={post.date}
+            author={post.author}
+            tags={post.tags}
+            category={post.category}
+            readingTime={post.readingTime}
+            wordCount={post.wordCount}
+          />
+          <PostBody content={html} toc={toc} />
+        </article>
+        <PostNavigation previous={previous} next={next} />
+        {relatedPosts.length > 0 && (
+          <MoreStories title={blog.relatedPosts} posts={relatedPosts} />
+        )}
+      </Container>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+    slug: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const params = await props.params;
+  const locale = resolveLocale(params.locale);
+  const post = await getVisiblePost(params.slug, locale);
+
+  if (!post) {
+    return notFound();
+  }
+
+  const title = post.title;
+  const path = `/posts/${post.slug}`;
+  // A page showing the untranslated original points search engines at it
+  const url = localizePath(path, post.locale);
+
+  return {
+    title,
+    description: post.excerpt,
+    alternates: {
+      canonical: url,
+      languages: Object.fromEntries(
+        [DEFAULT_LOCALE, ...post.translations].map((other) => [
+          other,
+          localizePath(path, other),
+        ]),
+      ),
+    },
+    openGraph: {
+      type: "article",
+      title,
+      description: post.excerpt,
+      url,
+      locale: post.locale,
+      publishedTime: post.date,
+      authors: [localizePath(`/authors/${post.author.id}`, locale)],
+      tags: post.tags,
+      images: [ogImage(path, locale, getMessages(locale).blog.ogAlt)],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description: post.excerpt,
+    },
+    robots: post.draft ? { index: false, follow: false } : undefined,
+  };
+}
+
+export async function generateStaticParams() {
+  const posts = getAllPosts();
+
+  return posts.map((post) => ({
+    slug: post.slug,
+  }));
+}
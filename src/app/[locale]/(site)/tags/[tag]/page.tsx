@@ -0,0 +1,74 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Container from "@/app/_components/container";
+import Header from "@/app/_components/header";
+import { MoreStories } from "@/app/_components/more-stories";
+import { TagCloud } from "@/app/_components/tag-cloud";
+import { getAllTags, getPostsByTag } from "@/lib/api";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { formatMessage, formatPlural } from "@/lib/i18n/format";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { pageOpenGraph } from "@/lib/og";
+import { slugFromParam, tagHref } from "@/lib/taxonomy";
+
+export const dynamicParams = false;
+
+export default async function TagPage(props: Params) {
+  const params = await props.params;
+  const locale = setRequestLocale(params.locale);
+  const tags = getAllTags();
+  const slug = slugFromParam(params.tag);
+  const tag = tags.find((t) => t.slug === slug);
+
+  if (!tag) {
+    return notFound();
+  }
+
+  const posts = getPostsByTag(tag.slug, locale);
+
+  return (
+    <div className="bg-white dark:bg-slate-900">
+      <Container>
+        <Header />
+        <MoreStories title={`#${tag.name}`} posts={posts} />
+        <TagCloud tags={tags} activeSlug={tag.slug} />
+      </Container>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+    tag: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const params = await props.params;
+  const locale = resolveLocale(params.locale);
+  const slug = slugFromParam(params.tag);
+  const tag = getAllTags().find((t) => t.slug === slug);
+
+  if (!tag) {
+    return notFound();
+  }
+
+  const { taxonomy } = getMessages(locale);
+
+  return {
+    title: formatMessage(taxonomy.taggedTitle, { tag: tag.name }),
+    description: formatPlural(taxonomy.taggedDescription, tag.count, locale, {
+      tag: tag.name,
+    }),
+    alternates: localeAlternates(tagHref(tag.name), locale),
+    openGraph: pageOpenGraph("/tags", locale, taxonomy.tags),
+  };
+}
+
+export async function generateStaticParams() {
+  return getAllTags().map((tag) => ({
+    tag: tag.slug,
+  }));
+}
@@ -0,0 +1,18 @@
+import { resolveLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { renderOgCard } from "@/lib/og";
+
+export const dynamic = "force-static";
+
+type Context = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function GET(_request: Request, { params }: Context) {
+  const { taxonomy } = getMessages(resolveLocale((await params).locale));
+
+  return renderOgCard({
+    title: taxonomy.tags,
+    description: taxonomy.tagsDescription,
+  });
+}
@@ -0,0 +1,40 @@
+import Container from "@/app/_components/container";
+import Header from "@/app/_components/header";
+import { TagCloud } from "@/app/_components/tag-cloud";
+import { getAllTags } from "@/lib/api";
+import { localeAlternates, resolveLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { pageOpenGraph } from "@/lib/og";
+import type { Metadata } from "next";
+
+export default async function TagsPage(props: Params) {
+  setRequestLocale((await props.params).locale);
+
+  return (
+    <div className="bg-white dark:bg-slate-900">
+      <Container>
+        <Header />
+        <TagCloud tags={getAllTags()} />
+      </Container>
+    </div>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    locale: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const locale = resolveLocale((await props.params).locale);
+  const { taxonomy } = getMessages(locale);
+
+  return {
+    title: taxonomy.tags,
+    description: taxonomy.tagsDescription,
+    alternates: localeAlternates("/tags", locale),
+    openGraph: pageOpenGraph("/tags", locale, taxonomy.tags),
+  };
+}
@@ -0,0 +1,129 @@
+// app/[locale]/layout.tsx
+import { LocaleProvider } from "@/app/_components/locale-provider";
+import { BLOG_TITLE, FEED_PATHS, SITE_NAME, SITE_URL } from "@/lib/constants";
+import { LOCALES, resolveLocale } from "@/lib/i18n/config";
+import { getMessages } from "@/lib/i18n/messages";
+import { setRequestLocale } from "@/lib/i18n/request";
+import { pageOpenGraph } from "@/lib/og";
+import type { Metadata } from "next";
+import { Inter } from "next/font/google";
+import cn from "classnames";
+
+import "../globals.css";
+
+const inter = Inter({ subsets: ["latin"] });
+
+// Only the locales in LOCALES exist; /de/... is a 404.
+export const dynamicParams = false;
+
+type Params = {
+  params: Promise<{
+    locale: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const locale = resolveLocale((await props.params).locale);
+  const { description } = getMessages(locale).site;
+
+  return {
+    metadataBase: new URL(SITE_URL),
+    title: {
+      default: SITE_NAME,
+      template: `%s | ${SITE_NAME}`,
+    },
+    description,
+    // Pages without a card of their own share the home page's
+    openGraph: pageOpenGraph("/", locale, `${SITE_NAME}: ${description}`),
+    twitter: {
+      card: "summary_large_image",
+    },
+  };
+}
+
+export async function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Params["params"];
+}>) {
+  const locale = setRequestLocale((await params).locale);
+
+  return (
+    <html lang={locale}>
+      <head>
+        {/* This script runs before hydration and sets the correct theme */}
+        {/* <script
+          dangerouslySetInnerHTML={{
+            __html: `
+              (function() {
+                const theme = localStorage.getItem('theme') || (window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light');
+                document.documentElement.setAttribute('data-mode', theme);
+              })();
+            `,
+          }}
+        /> */}
+        <link
+          rel="apple-touch-icon"
+          sizes="180x180"
+          href="/favicon/apple-touch-icon.png"
+        />
+        <link
+          rel="icon"
+          type="image/png"
+          sizes="32x32"
+          href="/favicon/favicon-32x32.png"
+        />
+        <link
+          rel="icon"
+          type="image/png"
+          sizes="16x16"
+          href="/favicon/favicon-16x16.png"
+        />
+        <link rel="manifest" href="/favicon/site.webmanifest" />
+        <link
+          rel="mask-icon"
+          href="/favicon/safari-pinned-tab.svg"
+          color="#000000"
+        />
+        <link rel="shortcut icon" href="/favicon/favicon.ico" />
+        <meta name="msapplication-TileColor" content="#000000" />
+        <meta
+          name="msapplication-config"
+          content="/favicon/browserconfig.xml"
+        />
+        <meta name="theme-color" content="#000" />
+        <link
+          rel="alternate"
+          type="application/rss+xml"
+          title={`${BLOG_TITLE} | ${SITE_NAME}`}
+          href={FEED_PATHS.rss}
+        />
+        <link
+          rel="alternate"
+          type="application/atom+xml"
+          title={`${BLOG_TITLE} | ${SITE_NAME}`}
+          href={FEED_PATHS.atom}
+        />
+        <link
+          rel="alternate"
+          type="application/feed+json"
+          title={`${BLOG_TITLE} | ${SITE_NAME}`}
+          href={FEED_PATHS.json}
+        />
+      </head>
+      <body
+        className={cn(inter.className, "dark:bg-slate-900 dark:text-slate-400")}
+      >
+        <LocaleProvider locale={locale} messages={getMessages(locale)}>
+          <div className="min-h-screen">{children}</div>
+        </LocaleProvider>
+      </body>
+    </html>
+  );
+}
\ No newline at end of file
@@ -1,5 +1,7 @@
 import Container from "@/app/_components/container";
-import { EXAMPLE_PATH } from "@/lib/constants";
+import { ANNOUNCEMENT } from "@/lib/constants";
+import { localizePath } from "@/lib/i18n/config";
+import { getRequestLocale, getRequestMessages } from "@/lib/i18n/request";
 import cn from "classnames";
 
 type Props = {
@@ -7,6 +9,12 @@ type Props = {
 };
 
 const Alert = ({ preview }: Props) => {
+  if (!preview && !ANNOUNCEMENT) {
+    return null;
+  }
+
+  const messages = getRequestMessages();
+
   return (
     <div
       className={cn("border-b dark:bg-slate-800", {
@@ -18,26 +26,27 @@ const Alert = ({ preview }: Props) => {
         <div className="py-2 text-center text-sm">
           {preview ? (
             <>
-              This page is a preview.{" "}
+              {messages.preview.notice}{" "}
               <a
                 href="/api/exit-preview"
                 className="underline hover:text-teal-300 duration-200 transition-colors"
               >
-                Click here
+                {messages.preview.exitLink}
               </a>{" "}
-              to exit preview mode.
+              {messages.preview.exitSuffix}
             </>
           ) : (
-            <>
-              The source code for this blog is{" "}
-              <a
-                href={`https://github.com/vercel/next.js/tree/canary/examples/${EXAMPLE_PATH}`}
-                className="underline hover:text-blue-600 duration-200 transition-colors"
-              >
-                available on GitHub
-              </a>
-              .
-            </>
+            ANNOUNCEMENT && (
+              <>
+                {ANNOUNCEMENT.text}{" "}
+                <a
+                  href={localizePath(ANNOUNCEMENT.href, getRequestLocale())}
+                  className="underline hover:text-blue-600 duration-200 transition-colors"
+                >
+                  {ANNOUNCEMENT.linkLabel}
+                </a>
+              </>
+            )
           )}
         </div>
       </Container>
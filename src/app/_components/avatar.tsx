@@ -1,14 +1,17 @@
+import Link from "@/app/_components/link";
+
 type Props = {
+  id: string;
   name: string;
   picture: string;
 };
 
-const Avatar = ({ name, picture }: Props) => {
+const Avatar = ({ id, name, picture }: Props) => {
   return (
-    <div className="flex items-center">
+    <Link href={`/authors/${id}`} className="group flex items-center">
       <img src={picture} className="w-12 h-12 rounded-full mr-4" alt={name} />
-      <div className="text-xl font-bold">{name}</div>
-    </div>
+      <div className="text-xl font-bold group-hover:underline">{name}</div>
+    </Link>
   );
 };
 
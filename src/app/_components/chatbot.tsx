@@ -0,0 +1,468 @@
+"use client";
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { X, Send, Mail, RotateCcw, MessageCircle, Clock, CheckCircle, Square, RefreshCw, Pencil, Check, AlertCircle } from 'lucide-react';
+import { ChatClientError, chatClient, isAbortError } from '@/lib/chat/client';
+import { MAX_RETRIES, backoffDelay, isRetryableError, wait } from '@/lib/chat/retry';
+import { clearConversation, loadActiveConversation, saveConversation } from '@/lib/chat/storage';
+import { type ChatDeliveryStatus, type ChatMessage } from '@/interfaces/chat';
+import { markdownToHtmlSync } from '@/lib/markdownToHtml';
+import { contactFormHref } from '@/lib/contact/prefill';
+import { type Locale } from '@/lib/i18n/config';
+import { formatMessage, formatTime } from '@/lib/i18n/format';
+import { type Messages } from '@/lib/i18n/messages';
+import chatMarkdownStyles from './chat-markdown.module.css';
+import Link from './link';
+import { useLocale, useMessages } from './locale-provider';
+
+// Type definitions
+interface ChatSession {
+  sessionId: string;
+  isBookingConfirmed: boolean;
+}
+
+type ChatStatus = 'idle' | 'typing' | 'error';
+
+// Utility functions
+const generateSessionId = (): string => `session_${Math.random().toString(36).substr(2, 9)}_${Date.now()}`;
+const generateMessageId = (): string => `msg_${Math.random().toString(36).substr(2, 9)}`;
+const formatTimestamp = (locale: Locale): string => formatTime(new Date(), locale);
+
+// Typed errors from the /api routes carry a code; the text comes from the catalog
+const describeChatError = (error: unknown, errors: Messages['chat']['errors']): string => {
+  if (error instanceof ChatClientError && error.kind === 'incomplete') {
+    return `${errors.failed}\n${errors.incomplete}`;
+  }
+  if (error instanceof ChatClientError && error.code) {
+    const title = error.code === 'rate_limited' ? errors.rateLimited : errors.failed;
+    return `${title}\n${errors.codes[error.code] ?? error.message}`;
+  }
+  return errors.connection;
+};
+
+// --- CHATBOT COMPONENT ---
+const Chatbot: React.FC = () => {
+  const locale = useLocale();
+  const { chat } = useMessages();
+
+  // State
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState<string>('');
+  const [chatStatus, setChatStatus] = useState<ChatStatus>('idle');
+  const [session, setSession] = useState<ChatSession>({ sessionId: '', isBookingConfirmed: false });
+  const [commonQuestions, setCommonQuestions] = useState<string[]>([]);
+  const [retryCount, setRetryCount] = useState<number>(0);
+  const [bookingAttempted, setBookingAttempted] = useState<boolean>(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(true);
+
+  // Refs
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  messagesRef.current = messages;
+
+  // Render message markdown to sanitized HTML
+  const formatBotResponse = useCallback((text: string): string => {
+    return markdownToHtmlSync(text.replace("Response:", "").trim(), { breaks: true });
+  }, []);
+
+  // Initialize session, resuming the stored conversation if there is one
+  useEffect(() => {
+    const stored = loadActiveConversation();
+    if (stored) {
+      setSession({ sessionId: stored.sessionId, isBookingConfirmed: stored.isBookingConfirmed });
+      setMessages(stored.messages);
+      setBookingAttempted(stored.bookingAttempted);
+    } else {
+      setSession(prev => ({ ...prev, sessionId: generateSessionId() }));
+    }
+  }, []);
+
+  // Persist the conversation once each reply has finished streaming
+  useEffect(() => {
+    if (!session.sessionId || messages.length === 0 || chatStatus === 'typing') return;
+    saveConversation({
+      sessionId: session.sessionId,
+      messages,
+      isBookingConfirmed: session.isBookingConfirmed,
+      bookingAttempted,
+    });
+  }, [messages, session, bookingAttempted, chatStatus]);
+
+  // Focus management
+  useEffect(() => {
+    if (isOpen) {
+      const timer = setTimeout(() => inputRef.current?.focus(), 150);
+      return () => clearTimeout(timer);
+    }
+  }, [isOpen]);
+
+  // Welcome message and common questions
+  useEffect(() => {
+    if (isOpen && messages.length === 0) {
+      setMessages([{
+        id: generateMessageId(),
+        sender: 'bot',
+        text: chat.welcome,
+        timestamp: formatTimestamp(locale)
+      }]);
+      fetchCommonQuestions();
+    }
+  }, [isOpen, messages.length]);
+
+  const fetchCommonQuestions = async () => {
+    try {
+      setCommonQuestions(await chatClient.getCommonQuestions({ locale }));
+    } catch (error) {
+      console.error('Failed to load common questions:', error);
+      setCommonQuestions(chat.commonQuestions);
+    }
+  };
+
+  const streamReply = async (userMessage: ChatMessage) => {
+    setChatStatus('typing');
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const tempBotMessageId = generateMessageId();
+    let botMessageStarted = false;
+
+    const setDeliveryStatus = (status: ChatDeliveryStatus) => {
+      setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, status } : m));
+    };
+    setDeliveryStatus('sending');
+
+    try {
+      // Only retry while nothing has been received, so a reply is never duplicated
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const events = chatClient.streamMessage(
+            { message: userMessage.text, sessionId: session.sessionId, locale },
+            { signal: controller.signal },
+          );
+
+          for await (const event of events) {
+            if (!botMessageStarted) {
+              botMessageStarted = true;
+              setDeliveryStatus('sent');
+              setMessages(prev => [...prev, { id: tempBotMessageId, sender: 'bot', text: '', timestamp: formatTimestamp(locale), replyTo: userMessage.id }]);
+            }
+            if (event.type === 'response_chunk') {
+              setMessages(prev => prev.map(m => m.id === tempBotMessageId ? { ...m, text: event.text } : m));
+            } else if (event.type === 'time_slots') {
+              setMessages(prev => prev.map(m => m.id === tempBotMessageId ? { ...m, timeSlots: event.slots } : m));
+            } else if (event.type === 'booking_confirmed') {
+              setMessages(prev => prev.map(m => m.id === tempBotMessageId ? { ...m, booking: event.booking } : m));
+              setSession(prev => ({ ...prev, isBookingConfirmed: true }));
+            } else if (event.type === 'error') {
+              console.error('Chat backend reported an error:', event.message);
+            }
+          }
+          break;
+        } catch (error) {
+          if (botMessageStarted || !navigator.onLine || attempt >= MAX_RETRIES || !isRetryableError(error)) throw error;
+          setRetryCount(attempt + 1);
+          await wait(backoffDelay(attempt), controller.signal);
+        }
+      }
+      setRetryCount(0);
+    } catch (error) {
+      setRetryCount(0);
+      if (isAbortError(error)) {
+        // Drop an empty reply; keep partial text but not half-offered time slots
+        setMessages(prev => prev.flatMap(m => {
+          if (m.id !== tempBotMessageId) return [m];
+          return m.text.trim() ? [{ ...m, isStopped: true, timeSlots: undefined }] : [];
+        }));
+        if (!botMessageStarted) setDeliveryStatus('failed');
+        return;
+      }
+      if (!navigator.onLine && !botMessageStarted) {
+        // Went offline before the backend answered; send again on reconnect
+        setDeliveryStatus('queued');
+        return;
+      }
+      console.error("Error fetching bot response:", error);
+      // Also after a partial reply, so it can be retried; retrying replaces it
+      setDeliveryStatus('failed');
+      setMessages(prev => [...prev, {
+        id: generateMessageId(),
+        sender: 'bot',
+        text: describeChatError(error, chat.errors),
+        timestamp: formatTimestamp(locale),
+        isError: true,
+        replyTo: userMessage.id
+      }]);
+      setChatStatus('error');
+    } finally {
+      // A newer request may already own the controller (e.g. regenerate right after stop)
+      if (abortControllerRef.current === controller) {
+        setChatStatus('idle');
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  const sendMessage = async (text: string) => {
+    if (!text.trim() || chatStatus === 'typing') return;
+
+    const userMessage: ChatMessage = {
+      id: generateMessageId(),
+      sender: 'user',
+      text: text.trim(),
+      timestamp: formatTimestamp(locale),
+      status: navigator.onLine ? 'sending' : 'queued'
+    };
+    setMessages(prev => [...prev, userMessage]);
+    setInput('');
+    if (userMessage.status === 'queued') return;
+    await streamReply(userMessage);
+  };
+
+  const retryMessage = (msg: ChatMessage) => {
+    if (chatStatus === 'typing') return;
+    setMessages(prev => prev.filter(m => m.replyTo !== msg.id));
+    streamReply(msg);
+  };
+
+  // Send queued messages in order once the browser is back online
+  const flushOutbox = async () => {
+    if (abortControllerRef.current) return;
+    const queued = messagesRef.current.filter(m => m.sender === 'user' && m.status === 'queued');
+    for (const msg of queued) {
+      if (!navigator.onLine) break;
+      await streamReply(msg);
+    }
+  };
+
+  useEffect(() => {
+    if (!session.sessionId) return;
+    const handleOnline = () => {
+      setIsOnline(true);
+      flushOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    setIsOnline(navigator.onLine);
+    if (navigator.onLine) flushOutbox();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [session.sessionId]);
+
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const regenerateResponse = () => {
+    if (chatStatus === 'typing') return;
+    const lastUserIndex = messages.findLastIndex(m => m.sender === 'user');
+    if (lastUserIndex === -1) return;
+
+    setMessages(prev => prev.slice(0, lastUserIndex + 1));
+    streamReply(messages[lastUserIndex]);
+  };
+
+  const startEditing = (msg: ChatMessage) => {
+    if (chatStatus === 'typing') return;
+    setEditingMessageId(msg.id);
+    setInput(msg.text);
+    inputRef.current?.focus();
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setInput('');
+  };
+
+  const resendEditedMessage = (text: string) => {
+    if (!text.trim() || chatStatus === 'typing') return;
+    const editedId = editingMessageId;
+
+    // Drop the edited message and everything after it, then send the new text
+    setMessages(prev => {
+      const index = prev.findIndex(m => m.id === editedId);
+      return index === -1 ? prev : prev.slice(0, index);
+    });
+    setEditingMessageId(null);
+    if (!session.isBookingConfirmed) setBookingAttempted(false);
+    sendMessage(text);
+  };
+
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingMessageId) resendEditedMessage(input.trim());
+    else sendMessage(input.trim());
+  };
+
+  const handleTimeSlotClick = (slot: string) => {
+    if (chatStatus !== 'typing' && !session.isBookingConfirmed) {
+      setBookingAttempted(true);
+      sendMessage(slot);
+    }
+  };
+
+  const clearChat = () => {
+    abortControllerRef.current?.abort();
+    clearConversation(session.sessionId);
+    setMessages([]);
+    setBookingAttempted(false);
+    setSession({ sessionId: generateSessionId(), isBookingConfirmed: false });
+    setChatStatus('idle');
+    setRetryCount(0);
+    setEditingMessageId(null);
+    setTimeout(() => {
+      setMessages([{
+        id: generateMessageId(),
+        sender: 'bot',
+        text: chat.welcome,
+        timestamp: formatTimestamp(locale)
+      }]);
+    }, 200);
+  };
+  
+  const lastUserMessage = messages.findLast(m => m.sender === 'user');
+  const lastUserMessageId = lastUserMessage?.id;
+
+  const renderDeliveryStatus = (status: ChatDeliveryStatus) => {
+    switch (status) {
+      case 'queued': return <span className="flex items-center ml-2"><Clock size={12} className="mr-1" /> {chat.status.queued}</span>;
+      case 'sending': return <span className="flex items-center ml-2"><Clock size={12} className="mr-1" /> {chat.status.sending}</span>;
+      case 'sent': return <span className="flex items-center ml-2"><Check size={12} className="mr-1" /> {chat.status.sent}</span>;
+      case 'failed': return <span className="flex items-center ml-2 text-red-200"><AlertCircle size={12} className="mr-1" /> {chat.status.failed}</span>;
+    }
+  };
+
+  const renderMessageContent = (msg: ChatMessage) => {
+    const formattedText = formatBotResponse(msg.text);
+    const timeSlotsToRender = msg.timeSlots ?? [];
+
+    return (
+      <>
+        <div className={chatMarkdownStyles['markdown']} dangerouslySetInnerHTML={{ __html: formattedText }} />
+        {timeSlotsToRender.length > 0 && (
+          <div className="mt-4">
+            <p className="text-sm text-gray-600 mb-2 font-medium">
+              <Clock size={14} className="inline mr-1" /> {chat.chooseSlot}
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {timeSlotsToRender.map((slot, index) => (
+                <button
+                  key={index}
+                  onClick={() => handleTimeSlotClick(slot)}
+                  disabled={bookingAttempted || session.isBookingConfirmed || chatStatus === 'typing'}
+                  className="px-3 py-2 text-sm rounded-lg border transition-all duration-200 disabled:bg-gray-100 disabled:text-gray-500 disabled:cursor-not-allowed bg-indigo-50 text-indigo-700 border-indigo-200 hover:bg-indigo-100"
+                >
+                  {slot}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">{chat.typeSlot}</p>
+          </div>
+        )}
+        {msg.booking && (
+          <div className="mt-4 p-3 rounded-lg bg-green-50 border border-green-200 text-green-800">
+            <p className="text-sm font-medium flex items-center"><CheckCircle size={16} className="mr-2" /> {chat.bookingConfirmed}</p>
+            {msg.booking.slot && <p className="text-xs mt-1">{msg.booking.slot}</p>}
+            {msg.booking.reference && <p className="text-xs mt-1">{formatMessage(chat.bookingReference, { reference: msg.booking.reference })}</p>}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <>
+      {!isOpen && (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="fixed bottom-6 right-6 z-50 p-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-full shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-110"
+          aria-label={chat.open}
+        >
+          <MessageCircle size={24} />
+        </button>
+      )}
+      <div className={`fixed inset-x-0 bottom-0 z-40 w-full h-[90vh] sm:max-w-sm md:max-w-md bg-white rounded-t-xl shadow-xl flex flex-col transition-all duration-300 ease-in-out md:inset-auto md:bottom-6 md:right-6 md:h-[640px] md:rounded-xl ${isOpen ? 'translate-y-0 opacity-100' : 'translate-y-full opacity-0 pointer-events-none'}`}>
+        <div className="flex items-center justify-between p-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-white/20 rounded-full flex items-center justify-center"><span className="text-lg font-bold">F</span></div>
+            <div>
+              <h2 className="text-lg font-semibold">{chat.title}</h2>
+              <div className="flex items-center space-x-1">
+                <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-400 animate-pulse' : 'bg-gray-300'}`}></div>
+                <p className="text-xs text-indigo-100">{isOnline ? chat.online : chat.offline}</p>
+              </div>
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <Link href={contactFormHref({ topic: 'general', message: lastUserMessage?.text })} onClick={() => setIsOpen(false)} className="p-2 rounded-full hover:bg-white/20" title={chat.contactTeam} aria-label={chat.contactTeam}><Mail size={18} /></Link>
+            <button onClick={clearChat} className="p-2 rounded-full hover:bg-white/20" title={chat.clear}><RotateCcw size={18} /></button>
+            <button onClick={() => setIsOpen(false)} className="p-2 rounded-full hover:bg-white/20" aria-label={chat.close}><X size={18} /></button>
+          </div>
+        </div>
+        <div ref={messagesContainerRef} className="flex-1 p-4 overflow-y-auto space-y-4 bg-gray-50">
+          {messages.map((msg, index) => (
+            <div key={msg.id} className={`flex flex-col ${msg.sender === 'user' ? 'items-end' : 'items-start'}`}>
+              <div className={`p-4 max-w-[85%] rounded-xl shadow-sm ${msg.sender === 'user' ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white' : msg.isError ? 'bg-red-50 text-red-800 border border-red-200' : 'bg-white text-gray-800 border'}`}>
+                <div className="text-sm leading-relaxed">{renderMessageContent(msg)}</div>
+                {msg.isStopped && <p className="text-xs mt-2 italic text-gray-500">{chat.stopped}</p>}
+                {(msg.timestamp || msg.status) && (
+                  <p className={`flex items-center text-xs mt-2 ${msg.sender === 'user' ? 'text-indigo-100' : 'text-gray-500'}`}>
+                    {msg.timestamp}
+                    {msg.status && renderDeliveryStatus(msg.status)}
+                  </p>
+                )}
+              </div>
+              {msg.status === 'failed' && chatStatus !== 'typing' && (
+                <button onClick={() => retryMessage(msg)} className="mt-1 flex items-center text-xs text-red-600 hover:text-red-800"><RefreshCw size={12} className="mr-1" /> {chat.retry}</button>
+              )}
+              {chatStatus !== 'typing' && !editingMessageId && msg.id === lastUserMessageId && (
+                <button onClick={() => startEditing(msg)} className="mt-1 flex items-center text-xs text-gray-500 hover:text-indigo-600"><Pencil size={12} className="mr-1" /> {chat.edit}</button>
+              )}
+              {chatStatus !== 'typing' && lastUserMessageId && msg.sender === 'bot' && index === messages.length - 1 && (
+                <button onClick={regenerateResponse} className="mt-1 flex items-center text-xs text-gray-500 hover:text-indigo-600"><RefreshCw size={12} className="mr-1" /> {chat.regenerate}</button>
+              )}
+            </div>
+          ))}
+          {chatStatus === 'typing' && (
+            <div className="flex justify-start"><div className="p-3 bg-white border rounded-lg shadow-sm"><div className="flex items-center space-x-1.5">{[0,1,2].map(i => <div key={i} className="w-2 h-2 bg-indigo-400 rounded-full animate-pulse" style={{ animationDelay: `${i*0.2}s` }} />)}</div></div></div>
+          )}
+          {chatStatus === 'typing' && retryCount > 0 && (
+            <p className="text-xs text-gray-500">{formatMessage(chat.reconnecting, { count: retryCount, max: MAX_RETRIES })}</p>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+        
+        {messages.length <= 1 && commonQuestions.length > 0 && (
+          <div className="p-4 bg-gray-100 border-t"><p className="text-sm text-gray-700 mb-3 font-medium">{chat.quickSuggestions}</p><div className="space-y-2">{commonQuestions.map((q, i) => <button key={i} onClick={() => sendMessage(q)} className="w-full text-left text-sm p-3 rounded-lg border bg-white hover:bg-gray-50">{q}</button>)}</div></div>
+        )}
+        <form onSubmit={handleSendMessage} className="p-4 bg-white border-t">
+          {editingMessageId && (
+            <div className="flex items-center justify-between mb-2 text-xs text-gray-600">
+              <span className="flex items-center"><Pencil size={12} className="mr-1" /> {chat.editing}</span>
+              <button type="button" onClick={cancelEditing} className="hover:text-indigo-600">{chat.cancelEditing}</button>
+            </div>
+          )}
+          <div className="flex items-center space-x-3">
+            <input ref={inputRef} type="text" value={input} onChange={e => setInput(e.target.value)} placeholder={chat.placeholder} className="flex-1 p-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500" disabled={chatStatus === 'typing'} />
+            {chatStatus === 'typing' ? (
+              <button type="button" onClick={stopGenerating} className="p-3 rounded-xl shadow-md transition-transform hover:scale-105 bg-gray-800 text-white" aria-label={chat.stop} title={chat.stop}><Square size={18} /></button>
+            ) : (
+              <button type="submit" className={`p-3 rounded-xl shadow-md transition-transform hover:scale-105 ${!input.trim() ? 'bg-gray-300 cursor-not-allowed' : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white'}`} disabled={!input.trim()}><Send size={18} /></button>
+            )}
+          </div>
+        </form>
+      </div>
+    </>
+  );
+};
+
+export default Chatbot;
@@ -0,0 +1,224 @@
+"use client";
+
+import {
+  type ContactApiResponse,
+  type ContactFieldErrors,
+  type ContactFormValues,
+} from "@/interfaces/contact";
+import { CONTACT_TOPICS } from "@/lib/contact/schema";
+import { formatMessage } from "@/lib/i18n/format";
+import cn from "classnames";
+import { CheckCircle } from "lucide-react";
+import { useState } from "react";
+import { useMessages } from "./locale-provider";
+
+type Props = {
+  initialValues?: Partial<ContactFormValues>;
+  // Signed when the page was served; see `issueFormToken`.
+  formToken: string;
+};
+
+type Status = "idle" | "submitting" | "sent" | "error";
+
+const EMPTY_VALUES: ContactFormValues = {
+  name: "",
+  email: "",
+  company: "",
+  topic: "general",
+  message: "",
+};
+
+export function ContactForm({ initialValues, formToken }: Props) {
+  const { contact } = useMessages();
+  const [values, setValues] = useState<ContactFormValues>(() => {
+    const defined = Object.fromEntries(
+      Object.entries(initialValues ?? {}).filter(([, value]) => value),
+    );
+    return { ...EMPTY_VALUES, ...defined };
+  });
+  const [fieldErrors, setFieldErrors] = useState<ContactFieldErrors>({});
+  const [formError, setFormError] = useState("");
+  const [status, setStatus] = useState<Status>("idle");
+  const [website, setWebsite] = useState("");
+
+  const update =
+    (field: keyof ContactFormValues) =>
+    (
+      e: React.ChangeEvent<
+        HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+      >,
+    ) => {
+      setValues((prev) => ({ ...prev, [field]: e.target.value }));
+      setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+    };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus("submitting");
+    setFormError("");
+
+    try {
+      const response = await fetch("/api/contact", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...values, website, formToken }),
+      });
+      const result: ContactApiResponse = await response.json();
+
+      if (result.ok) {
+        setStatus("sent");
+        return;
+      }
+      setFieldErrors(result.error.fieldErrors ?? {});
+      setFormError(contact.errors[result.error.code] ?? result.error.message);
+      setStatus("error");
+    } catch (error) {
+      console.error("Failed to send contact form:", error);
+      setFormError(contact.networkError);
+      setStatus("error");
+    }
+  };
+
+  if (status === "sent") {
+    return (
+      <div className="text-center py-12" role="status">
+        <CheckCircle size={64} className="text-green-600 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold mb-2">
+          {formatMessage(contact.thanks, { name: values.name })}
+        </h2>
+        <p className="text-gray-600">
+          {formatMessage(contact.sent, { email: values.email })}
+        </p>
+      </div>
+    );
+  }
+
+  const fieldClass = (field: keyof ContactFormValues) =>
+    cn(
+      "mt-1 w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500",
+      { "border-red-400": fieldErrors[field] },
+    );
+
+  const errorFor = (field: keyof ContactFormValues) => {
+    const code = fieldErrors[field];
+    return (
+      code && (
+        <p id={`${field}-error`} className="mt-1 text-sm text-red-600">
+          {contact.fieldErrors[field][code] ?? contact.errors.invalid}
+        </p>
+      )
+    );
+  };
+
+  const describedBy = (field: keyof ContactFormValues) =>
+    fieldErrors[field] ? `${field}-error` : undefined;
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+        <label className="block text-sm font-medium text-gray-700">
+          {contact.name}
+          <input
+            type="text"
+            name="name"
+            autoComplete="name"
+            value={values.name}
+            onChange={update("name")}
+            aria-invalid={!!fieldErrors.name}
+            aria-describedby={describedBy("name")}
+            className={fieldClass("name")}
+          />
+          {errorFor("name")}
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          {contact.email}
+          <input
+            type="email"
+            name="email"
+            autoComplete="email"
+            value={values.email}
+            onChange={update("email")}
+            aria-invalid={!!fieldErrors.email}
+            aria-describedby={describedBy("email")}
+            className={fieldClass("email")}
+          />
+          {errorFor("email")}
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          {contact.company}{" "}
+          <span className="text-gray-400">{contact.optional}</span>
+          <input
+            type="text"
+            name="company"
+            autoComplete="organization"
+            value={values.company}
+            onChange={update("company")}
+            aria-invalid={!!fieldErrors.company}
+            aria-describedby={describedBy("company")}
+            className={fieldClass("company")}
+          />
+          {errorFor("company")}
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          {contact.topic}
+          <select
+            name="topic"
+            value={values.topic}
+            onChange={update("topic")}
+            aria-invalid={!!fieldErrors.topic}
+            aria-describedby={describedBy("topic")}
+            className={cn(fieldClass("topic"), "bg-white")}
+          >
+            {CONTACT_TOPICS.map((value) => (
+              <option key={value} value={value}>
+                {contact.topics[value]}
+              </option>
+            ))}
+          </select>
+          {errorFor("topic")}
+        </label>
+      </div>
+      <label className="block text-sm font-medium text-gray-700">
+        {contact.message}
+        <textarea
+          name="message"
+          rows={6}
+          value={values.message}
+          onChange={update("message")}
+          aria-invalid={!!fieldErrors.message}
+          aria-describedby={describedBy("message")}
+          className={fieldClass("message")}
+        />
+        {errorFor("message")}
+      </label>
+
+      {/* Honeypot: hidden from people, filled in by naive bots */}
+      <div className="hidden" aria-hidden="true">
+        <label>
+          Website
+          <input
+            type="text"
+            name="website"
+            tabIndex={-1}
+            autoComplete="off"
+            value={website}
+            onChange={(e) => setWebsite(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {formError && (
+        <p className="p-3 rounded-lg bg-red-50 text-red-800" role="alert">
+          {formError}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={status === "submitting"}
+        className="px-6 py-3 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        {status === "submitting" ? contact.sending : contact.send}
+      </button>
+    </form>
+  );
+}
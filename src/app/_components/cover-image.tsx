@@ -1,5 +1,7 @@
+import Link from "@/app/_components/link";
+import { formatMessage } from "@/lib/i18n/format";
+import { getRequestMessages } from "@/lib/i18n/request";
 import cn from "classnames";
-import Link from "next/link";
 import Image from "next/image";
 
 type Props = {
@@ -12,7 +14,7 @@ const CoverImage = ({ title, src, slug }: Props) => {
   const image = (
     <Image
       src={src}
-      alt={`Cover Image for ${title}`}
+      alt={formatMessage(getRequestMessages().blog.coverAlt, { title })}
       className={cn("shadow-sm w-full", {
         "hover:shadow-lg transition-shadow duration-200": slug,
       })}
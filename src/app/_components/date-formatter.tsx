@@ -1,12 +1,15 @@
-import { parseISO, format } from "date-fns";
+"use client";
+
+import { formatDate } from "@/lib/i18n/format";
+import { useLocale } from "./locale-provider";
 
 type Props = {
   dateString: string;
 };
 
 const DateFormatter = ({ dateString }: Props) => {
-  const date = parseISO(dateString);
-  return <time dateTime={dateString}>{format(date, "LLLL	d, yyyy")}</time>;
+  const locale = useLocale();
+  return <time dateTime={dateString}>{formatDate(dateString, locale)}</time>;
 };
 
 export default DateFormatter;
@@ -1,29 +1,41 @@
 import Container from "@/app/_components/container";
-import { EXAMPLE_PATH } from "@/lib/constants";
+import Link from "@/app/_components/link";
+import { NAV_ITEMS, SITE_NAME } from "@/lib/constants";
+import { getRequestMessages } from "@/lib/i18n/request";
 
 export function Footer() {
+  const messages = getRequestMessages();
+
   return (
     <footer className="bg-neutral-50 border-t border-neutral-200 dark:bg-slate-800">
       <Container>
-        <div className="py-28 flex flex-col lg:flex-row items-center">
-          <h3 className="text-4xl lg:text-[2.5rem] font-bold tracking-tighter leading-tight text-center lg:text-left mb-10 lg:mb-0 lg:pr-4 lg:w-1/2">
-            Statically Generated with Next.js.
-          </h3>
-          <div className="flex flex-col lg:flex-row justify-center items-center lg:pl-4 lg:w-1/2">
-            <a
-              href="https://nextjs.org/docs/app/building-your-application/routing/layouts-and-templates"
-              className="mx-3 bg-black hover:bg-white hover:text-black border border-black text-white font-bold py-3 px-12 lg:px-8 duration-200 transition-colors mb-6 lg:mb-0"
-            >
-              Read Documentation
-            </a>
-            <a
-              href={`https://github.com/vercel/next.js/tree/canary/examples/${EXAMPLE_PATH}`}
-              className="mx-3 font-bold hover:underline"
-            >
-              View on GitHub
-            </a>
+        <div className="py-16 flex flex-col lg:flex-row items-center">
+          <div className="text-center lg:text-left mb-10 lg:mb-0 lg:pr-4 lg:w-1/2">
+            <h3 className="text-3xl lg:text-4xl font-bold tracking-tighter leading-tight">
+              {SITE_NAME}
+            </h3>
+            <p className="mt-2 text-neutral-600">
+              {messages.site.description}
+            </p>
           </div>
+          <nav
+            aria-label={messages.footer.label}
+            className="flex flex-col lg:flex-row justify-center items-center lg:justify-end lg:pl-4 lg:w-1/2"
+          >
+            {NAV_ITEMS.map(({ href, key }) => (
+              <Link
+                key={href}
+                href={href}
+                className="mx-3 mb-3 lg:mb-0 font-bold hover:underline"
+              >
+                {messages.nav[key]}
+              </Link>
+            ))}
+          </nav>
         </div>
+        <p className="pb-8 text-center text-sm text-neutral-500">
+          © {new Date().getFullYear()} {SITE_NAME}
+        </p>
       </Container>
     </footer>
   );
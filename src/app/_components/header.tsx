@@ -1,10 +1,13 @@
-import Link from "next/link";
+import Link from "@/app/_components/link";
+import { getRequestMessages } from "@/lib/i18n/request";
 
 const Header = () => {
+  const { blog } = getRequestMessages();
+
   return (
     <h2 className="text-2xl md:text-4xl font-bold tracking-tight md:tracking-tighter leading-tight mb-20 mt-8 flex items-center">
-      <Link href="/" className="hover:underline">
-        Blog
+      <Link href="/blog" className="hover:underline">
+        {blog.title}
       </Link>
       .
     </h2>
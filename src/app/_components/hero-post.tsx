@@ -1,8 +1,10 @@
 import Avatar from "@/app/_components/avatar";
 import CoverImage from "@/app/_components/cover-image";
+import Link from "@/app/_components/link";
 import { type Author } from "@/interfaces/author";
-import Link from "next/link";
 import DateFormatter from "./date-formatter";
+import { PostTaxonomy } from "./post-taxonomy";
+import { ReadingTime } from "./reading-time";
 
 type Props = {
   title: string;
@@ -11,6 +13,10 @@ type Props = {
   excerpt: string;
   author: Author;
   slug: string;
+  tags?: string[];
+  category?: string;
+  readingTime: number;
+  wordCount: number;
 };
 
 export function HeroPost({
@@ -20,6 +26,10 @@ export function HeroPost({
   excerpt,
   author,
   slug,
+  tags = [],
+  category,
+  readingTime,
+  wordCount,
 }: Props) {
   return (
     <section>
@@ -35,11 +45,20 @@ export function HeroPost({
           </h3>
           <div className="mb-4 md:mb-0 text-lg">
             <DateFormatter dateString={date} />
+            {" · "}
+            <ReadingTime readingTime={readingTime} wordCount={wordCount} />
           </div>
         </div>
         <div>
           <p className="text-lg leading-relaxed mb-4">{excerpt}</p>
-          <Avatar name={author.name} picture={author.picture} />
+          <div className="mb-4">
+            <PostTaxonomy tags={tags} category={category} />
+          </div>
+          <Avatar
+            id={author.id}
+            name={author.name}
+            picture={author.picture}
+          />
         </div>
       </div>
     </section>
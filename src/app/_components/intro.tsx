@@ -1,20 +1,15 @@
-import { CMS_NAME } from "@/lib/constants";
+import { getRequestMessages } from "@/lib/i18n/request";
 
 export function Intro() {
+  const { blog } = getRequestMessages();
+
   return (
     <section className="flex-col md:flex-row flex items-center md:justify-between mt-16 mb-16 md:mb-12">
       <h1 className="text-5xl md:text-8xl font-bold tracking-tighter leading-tight md:pr-8">
-        Blog.
+        {blog.title}.
       </h1>
       <h4 className="text-center md:text-left text-lg mt-5 md:pl-8">
-        A statically generated blog example using{" "}
-        <a
-          href="https://nextjs.org/"
-          className="underline hover:text-blue-600 duration-200 transition-colors"
-        >
-          Next.js
-        </a>{" "}
-        and {CMS_NAME}.
+        {blog.description}
       </h4>
     </section>
   );
@@ -0,0 +1,101 @@
+"use client";
+
+import { type Job } from "@/interfaces/job";
+import { useMemo, useState } from "react";
+import DateFormatter from "./date-formatter";
+import Link from "./link";
+import { JobMeta } from "./job-meta";
+import { useMessages } from "./locale-provider";
+
+type Props = {
+  jobs: Omit<Job, "content">[];
+};
+
+const ALL = "";
+
+function uniqueSorted(values: string[]) {
+  return Array.from(new Set(values)).sort();
+}
+
+export function JobList({ jobs }: Props) {
+  const { careers } = useMessages();
+  const [team, setTeam] = useState(ALL);
+  const [location, setLocation] = useState(ALL);
+
+  const teams = useMemo(
+    () => uniqueSorted(jobs.map((job) => job.team)),
+    [jobs],
+  );
+  const locations = useMemo(
+    () => uniqueSorted(jobs.map((job) => job.location)),
+    [jobs],
+  );
+  const visibleJobs = jobs.filter(
+    (job) =>
+      (team === ALL || job.team === team) &&
+      (location === ALL || job.location === location),
+  );
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row gap-4 mb-8">
+        <label className="flex flex-col text-sm font-medium text-gray-700">
+          {careers.team}
+          <select
+            value={team}
+            onChange={(e) => setTeam(e.target.value)}
+            className="mt-1 p-2 border rounded-lg bg-white"
+          >
+            <option value={ALL}>{careers.allTeams}</option>
+            {teams.map((value) => (
+              <option key={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm font-medium text-gray-700">
+          {careers.location}
+          <select
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            className="mt-1 p-2 border rounded-lg bg-white"
+          >
+            <option value={ALL}>{careers.allLocations}</option>
+            {locations.map((value) => (
+              <option key={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {visibleJobs.length === 0 ? (
+        <p className="text-gray-600" role="status">
+          {careers.noMatches}
+        </p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {visibleJobs.map((job) => (
+            <li key={job.slug} className="p-5 hover:bg-gray-50">
+              <h2 className="text-xl font-semibold mb-2">
+                <Link
+                  href={`/careers/${job.slug}`}
+                  className="hover:text-indigo-600"
+                >
+                  {job.title}
+                </Link>
+              </h2>
+              <JobMeta
+                team={job.team}
+                location={job.location}
+                employmentType={job.employmentType}
+              />
+              <p className="mt-3 text-gray-700">{job.summary}</p>
+              <p className="mt-2 text-xs text-gray-500">
+                {careers.posted} <DateFormatter dateString={job.postedDate} />
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { type EmploymentType } from "@/interfaces/job";
+import { Briefcase, Clock, MapPin } from "lucide-react";
+import { useMessages } from "./locale-provider";
+
+type Props = {
+  team: string;
+  location: string;
+  employmentType: EmploymentType;
+};
+
+export function JobMeta({ team, location, employmentType }: Props) {
+  const { employmentTypes } = useMessages().careers;
+
+  return (
+    <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+      <li className="flex items-center">
+        <Briefcase size={14} className="mr-1" /> {team}
+      </li>
+      <li className="flex items-center">
+        <MapPin size={14} className="mr-1" /> {location}
+      </li>
+      <li className="flex items-center">
+        <Clock size={14} className="mr-1" />{" "}
+        {employmentTypes[employmentType] ?? employmentType}
+      </li>
+    </ul>
+  );
+}
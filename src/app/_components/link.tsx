@@ -0,0 +1,24 @@
+"use client";
+
+import { localizePath } from "@/lib/i18n/config";
+import NextLink from "next/link";
+import { type ComponentProps } from "react";
+import { useLocale } from "./locale-provider";
+
+type Props = ComponentProps<typeof NextLink>;
+
+/**
+ * `next/link` that keeps visitors in their language: internal paths get
+ * the active locale's prefix, so components can keep writing `/blog`.
+ */
+const Link = ({ href, ...props }: Props) => {
+  const locale = useLocale();
+  return (
+    <NextLink
+      href={typeof href === "string" ? localizePath(href, locale) : href}
+      {...props}
+    />
+  );
+};
+
+export default Link;
@@ -0,0 +1,44 @@
+"use client";
+
+import { type Locale } from "@/lib/i18n/config";
+import { type Messages } from "@/lib/i18n/messages";
+import { createContext, useContext } from "react";
+
+type LocaleContextValue = {
+  locale: Locale;
+  messages: Messages;
+};
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+type Props = LocaleContextValue & {
+  children: React.ReactNode;
+};
+
+/**
+ * Hands the active locale and its catalog to client components. Only the
+ * catalog for the current locale is sent to the browser.
+ */
+export function LocaleProvider({ locale, messages, children }: Props) {
+  return (
+    <LocaleContext.Provider value={{ locale, messages }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+function useLocaleContext() {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error("useLocale must be used inside a LocaleProvider");
+  }
+  return context;
+}
+
+export function useLocale() {
+  return useLocaleContext().locale;
+}
+
+export function useMessages() {
+  return useLocaleContext().messages;
+}
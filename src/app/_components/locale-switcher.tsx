@@ -0,0 +1,50 @@
+"use client";
+
+import {
+  LOCALES,
+  LOCALE_NAMES,
+  localizePath,
+  splitLocalePath,
+} from "@/lib/i18n/config";
+import cn from "classnames";
+import NextLink from "next/link";
+import { usePathname } from "next/navigation";
+import { useLocale, useMessages } from "./locale-provider";
+
+type Props = {
+  className?: string;
+  tabIndex?: number;
+};
+
+// Links to the page being viewed in every language
+export function LocaleSwitcher({ className, tabIndex }: Props) {
+  const locale = useLocale();
+  const messages = useMessages();
+  const { path } = splitLocalePath(usePathname());
+
+  return (
+    <ul
+      aria-label={messages.header.language}
+      className={cn("flex items-center gap-2 text-sm font-medium", className)}
+    >
+      {LOCALES.map((other) => (
+        <li key={other}>
+          <NextLink
+            href={localizePath(path, other)}
+            hrefLang={other}
+            lang={other}
+            aria-current={other === locale ? "true" : undefined}
+            title={LOCALE_NAMES[other]}
+            tabIndex={tabIndex}
+            className={cn("uppercase hover:text-indigo-600", {
+              "text-indigo-600": other === locale,
+              "text-gray-500": other !== locale,
+            })}
+          >
+            {other}
+          </NextLink>
+        </li>
+      ))}
+    </ul>
+  );
+}
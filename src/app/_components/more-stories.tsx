@@ -1,15 +1,20 @@
 import { Post } from "@/interfaces/post";
+import { getRequestMessages } from "@/lib/i18n/request";
 import { PostPreview } from "./post-preview";
 
 type Props = {
   posts: Post[];
+  title?: string;
 };
 
-export function MoreStories({ posts }: Props) {
+export function MoreStories({
+  posts,
+  title = getRequestMessages().blog.moreStories,
+}: Props) {
   return (
     <section>
       <h2 className="mb-8 text-5xl md:text-7xl font-bold tracking-tighter leading-tight">
-        More Stories
+        {title}
       </h2>
       <div className="grid grid-cols-1 md:grid-cols-2 md:gap-x-16 lg:gap-x-32 gap-y-20 md:gap-y-32 mb-32">
         {posts.map((post) => (
@@ -21,6 +26,10 @@ export function MoreStories({ posts }: Props) {
             author={post.author}
             slug={post.slug}
             excerpt={post.excerpt}
+            tags={post.tags}
+            category={post.category}
+            readingTime={post.readingTime}
+            wordCount={post.wordCount}
           />
         ))}
       </div>
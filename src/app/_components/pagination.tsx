@@ -0,0 +1,79 @@
+import Link from "@/app/_components/link";
+import { localizePath } from "@/lib/i18n/config";
+import { getRequestLocale, getRequestMessages } from "@/lib/i18n/request";
+import { blogPageHref } from "@/lib/pagination";
+import cn from "classnames";
+
+type Props = {
+  page: number;
+  totalPages: number;
+};
+
+const linkClass =
+  "inline-block px-3 py-1 rounded hover:bg-neutral-100 dark:hover:bg-slate-800 duration-200 transition-colors";
+
+export function Pagination({ page, totalPages }: Props) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  const pages = Array.from({ length: totalPages }, (_, i) => i + 1);
+  const { blog } = getRequestMessages();
+
+  return (
+    <nav aria-label={blog.pages} className="mb-32">
+      <ul className="flex flex-wrap items-center justify-center gap-2 text-lg">
+        {page > 1 && (
+          <li>
+            <Link
+              href={blogPageHref(page - 1)}
+              rel="prev"
+              className={linkClass}
+            >
+              {blog.newerPosts}
+            </Link>
+          </li>
+        )}
+        {pages.map((n) => (
+          <li key={n}>
+            <Link
+              href={blogPageHref(n)}
+              rel={
+                n === page - 1 ? "prev" : n === page + 1 ? "next" : undefined
+              }
+              aria-current={n === page ? "page" : undefined}
+              className={cn(linkClass, n === page && "font-bold underline")}
+            >
+              {n}
+            </Link>
+          </li>
+        ))}
+        {page < totalPages && (
+          <li>
+            <Link
+              href={blogPageHref(page + 1)}
+              rel="next"
+              className={linkClass}
+            >
+              {blog.olderPosts}
+            </Link>
+          </li>
+        )}
+      </ul>
+    </nav>
+  );
+}
+
+/**
+ * `<link rel="prev|next">` for the page head; React hoists them there.
+ */
+export function PaginationLinks({ page, totalPages }: Props) {
+  const href = (n: number) => localizePath(blogPageHref(n), getRequestLocale());
+
+  return (
+    <>
+      {page > 1 && <link rel="prev" href={href(page - 1)} />}
+      {page < totalPages && <link rel="next" href={href(page + 1)} />}
+    </>
+  );
+}
@@ -1,16 +1,33 @@
+import { TocEntry } from "@/interfaces/toc";
 import markdownStyles from "./markdown-styles.module.css";
+import { TableOfContents } from "./table-of-contents";
 
 type Props = {
   content: string;
+  toc?: TocEntry[];
 };
 
-export function PostBody({ content }: Props) {
+// Short posts read fine without a table of contents.
+const MIN_TOC_ENTRIES = 2;
+
+export function PostBody({ content, toc = [] }: Props) {
+  const showToc = toc.length >= MIN_TOC_ENTRIES;
+
   return (
-    <div className="max-w-2xl mx-auto">
-      <div
-        className={markdownStyles["markdown"]}
-        dangerouslySetInnerHTML={{ __html: content }}
-      />
+    <div className="lg:grid lg:grid-cols-[1fr_minmax(0,42rem)_1fr] lg:gap-12">
+      {showToc && (
+        <aside className="mx-auto mb-12 max-w-2xl lg:col-start-3 lg:row-start-1 lg:mx-0 lg:mb-0">
+          <div className="lg:sticky lg:top-24">
+            <TableOfContents entries={toc} />
+          </div>
+        </aside>
+      )}
+      <div className="max-w-2xl mx-auto lg:col-start-2 lg:row-start-1 lg:w-full">
+        <div
+          className={markdownStyles["markdown"]}
+          dangerouslySetInnerHTML={{ __html: content }}
+        />
+      </div>
     </div>
   );
 }
@@ -1,6 +1,8 @@
 import Avatar from "./avatar";
 import CoverImage from "./cover-image";
 import DateFormatter from "./date-formatter";
+import { PostTaxonomy } from "./post-taxonomy";
+import { ReadingTime } from "./reading-time";
 import { PostTitle } from "@/app/_components/post-title";
 import { type Author } from "@/interfaces/author";
 
@@ -9,24 +11,46 @@ type Props = {
   coverImage: string;
   date: string;
   author: Author;
+  tags?: string[];
+  category?: string;
+  readingTime: number;
+  wordCount: number;
 };
 
-export function PostHeader({ title, coverImage, date, author }: Props) {
+export function PostHeader({
+  title,
+  coverImage,
+  date,
+  author,
+  tags = [],
+  category,
+  readingTime,
+  wordCount,
+}: Props) {
   return (
     <>
       <PostTitle>{title}</PostTitle>
       <div className="hidden md:block md:mb-12">
-        <Avatar name={author.name} picture={author.picture} />
+        <Avatar id={author.id} name={author.name} picture={author.picture} />
       </div>
       <div className="mb-8 md:mb-16 sm:mx-0">
         <CoverImage title={title} src={coverImage} />
       </div>
       <div className="max-w-2xl mx-auto">
         <div className="block md:hidden mb-6">
-          <Avatar name={author.name} picture={author.picture} />
+          <Avatar
+            id={author.id}
+            name={author.name}
+            picture={author.picture}
+          />
         </div>
         <div className="mb-6 text-lg">
           <DateFormatter dateString={date} />
+          {" · "}
+          <ReadingTime readingTime={readingTime} wordCount={wordCount} />
+        </div>
+        <div className="mb-6">
+          <PostTaxonomy tags={tags} category={category} />
         </div>
       </div>
     </>
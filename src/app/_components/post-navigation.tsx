@@ -0,0 +1,49 @@
+import Link from "@/app/_components/link";
+import { Post } from "@/interfaces/post";
+import { getRequestMessages } from "@/lib/i18n/request";
+
+type Props = {
+  previous: Post | null;
+  next: Post | null;
+};
+
+// `previous` is the older post, `next` the newer one.
+export function PostNavigation({ previous, next }: Props) {
+  if (!previous && !next) {
+    return null;
+  }
+
+  const { blog } = getRequestMessages();
+
+  return (
+    <nav
+      aria-label={blog.morePosts}
+      className="max-w-2xl mx-auto mb-24 grid grid-cols-2 gap-8 border-t border-neutral-200 pt-8 dark:border-slate-700"
+    >
+      <div>
+        {previous && (
+          <Link href={`/posts/${previous.slug}`} rel="prev" className="group">
+            <span className="block text-sm text-neutral-500">
+              {blog.previousPost}
+            </span>
+            <span className="text-lg font-bold group-hover:underline">
+              {previous.title}
+            </span>
+          </Link>
+        )}
+      </div>
+      <div className="text-right">
+        {next && (
+          <Link href={`/posts/${next.slug}`} rel="next" className="group">
+            <span className="block text-sm text-neutral-500">
+              {blog.nextPost}
+            </span>
+            <span className="text-lg font-bold group-hover:underline">
+              {next.title}
+            </span>
+          </Link>
+        )}
+      </div>
+    </nav>
+  );
+}
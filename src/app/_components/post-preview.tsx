@@ -1,8 +1,10 @@
 import { type Author } from "@/interfaces/author";
-import Link from "next/link";
 import Avatar from "./avatar";
 import CoverImage from "./cover-image";
 import DateFormatter from "./date-formatter";
+import Link from "./link";
+import { PostTaxonomy } from "./post-taxonomy";
+import { ReadingTime } from "./reading-time";
 
 type Props = {
   title: string;
@@ -11,6 +13,10 @@ type Props = {
   excerpt: string;
   author: Author;
   slug: string;
+  tags?: string[];
+  category?: string;
+  readingTime: number;
+  wordCount: number;
 };
 
 export function PostPreview({
@@ -20,6 +26,10 @@ export function PostPreview({
   excerpt,
   author,
   slug,
+  tags = [],
+  category,
+  readingTime,
+  wordCount,
 }: Props) {
   return (
     <div>
@@ -33,9 +43,14 @@ export function PostPreview({
       </h3>
       <div className="text-lg mb-4">
         <DateFormatter dateString={date} />
+        {" · "}
+        <ReadingTime readingTime={readingTime} wordCount={wordCount} />
       </div>
       <p className="text-lg leading-relaxed mb-4">{excerpt}</p>
-      <Avatar name={author.name} picture={author.picture} />
+      <div className="mb-4">
+        <PostTaxonomy tags={tags} category={category} />
+      </div>
+      <Avatar id={author.id} name={author.name} picture={author.picture} />
     </div>
   );
 }
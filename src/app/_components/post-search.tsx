@@ -0,0 +1,213 @@
+"use client";
+
+import {
+  SearchDocument,
+  SearchRange,
+  SearchResult,
+} from "@/interfaces/search";
+import { SEARCH_INDEX_PATH } from "@/lib/constants";
+import { localizePath } from "@/lib/i18n/config";
+import { formatMessage } from "@/lib/i18n/format";
+import {
+  documentsForLocale,
+  search,
+  splitHighlights,
+} from "@/lib/search";
+import cn from "classnames";
+import { Search } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import Link from "./link";
+import { useLocale, useMessages } from "./locale-provider";
+
+type Status = "idle" | "loading" | "ready" | "error";
+
+function Highlighted({
+  text,
+  ranges,
+}: {
+  text: string;
+  ranges: SearchRange[];
+}) {
+  return (
+    <>
+      {splitHighlights(text, ranges).map((part, i) =>
+        part.highlight ? (
+          <mark
+            key={i}
+            className="bg-yellow-200 text-inherit dark:bg-yellow-500/40"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        ),
+      )}
+    </>
+  );
+}
+
+export function PostSearch() {
+  const router = useRouter();
+  const locale = useLocale();
+  const messages = useMessages();
+  const listboxId = useId();
+  const [documents, setDocuments] = useState<SearchDocument[]>([]);
+  const [status, setStatus] = useState<Status>("idle");
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // The index is only fetched once someone shows interest in searching
+  const loadIndex = async () => {
+    if (status === "loading" || status === "ready") return;
+    setStatus("loading");
+    try {
+      const response = await fetch(SEARCH_INDEX_PATH);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setDocuments(await response.json());
+      setStatus("ready");
+    } catch (error) {
+      console.error("Failed to load search index:", error);
+      setStatus("error");
+    }
+  };
+
+  const results: SearchResult[] = useMemo(
+    () => search(documentsForLocale(documents, locale), query),
+    [documents, locale, query],
+  );
+
+  useEffect(() => {
+    setActiveIndex(results.length > 0 ? 0 : -1);
+  }, [results]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const hrefFor = (result: SearchResult) => `/posts/${result.document.slug}`;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        if (results.length > 0) {
+          setActiveIndex((i) => (i + 1) % results.length);
+        }
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        if (results.length > 0) {
+          setActiveIndex((i) => (i <= 0 ? results.length - 1 : i - 1));
+        }
+        break;
+      case "Enter":
+        if (results[activeIndex]) {
+          e.preventDefault();
+          router.push(localizePath(hrefFor(results[activeIndex]), locale));
+        }
+        break;
+      case "Escape":
+        setQuery("");
+        break;
+    }
+  };
+
+  const trimmed = query.trim();
+  const expanded = trimmed.length > 0 && status === "ready";
+
+  return (
+    <section className="mb-16">
+      <label htmlFor={`${listboxId}-input`} className="sr-only">
+        {messages.search.label}
+      </label>
+      <div className="relative">
+        <Search
+          className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-neutral-400"
+          aria-hidden="true"
+        />
+        <input
+          id={`${listboxId}-input`}
+          type="search"
+          role="combobox"
+          autoComplete="off"
+          aria-autocomplete="list"
+          aria-expanded={expanded}
+          aria-controls={listboxId}
+          aria-activedescendant={
+            expanded && activeIndex >= 0
+              ? `${listboxId}-option-${activeIndex}`
+              : undefined
+          }
+          placeholder={messages.search.placeholder}
+          value={query}
+          onFocus={loadIndex}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            loadIndex();
+          }}
+          onKeyDown={handleKeyDown}
+          className="w-full rounded-lg border border-neutral-300 bg-white py-3 pl-12 pr-4 text-lg focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200 dark:border-slate-600 dark:bg-slate-800"
+        />
+      </div>
+
+      {trimmed && status === "loading" && (
+        <p className="mt-4 text-neutral-500">{messages.search.loading}</p>
+      )}
+      {trimmed && status === "error" && (
+        <p className="mt-4 text-red-600">{messages.search.unavailable}</p>
+      )}
+      {expanded && results.length === 0 && (
+        <p className="mt-4 text-neutral-500" role="status">
+          {formatMessage(messages.search.noResults, { query: trimmed })}
+        </p>
+      )}
+
+      <ul
+        id={listboxId}
+        ref={listRef}
+        role="listbox"
+        aria-label={messages.search.results}
+        hidden={!expanded || results.length === 0}
+        className="mt-4 max-h-[28rem] divide-y divide-neutral-200 overflow-y-auto rounded-lg border border-neutral-200 dark:divide-slate-700 dark:border-slate-700"
+      >
+        {expanded &&
+          results.map((result, index) => (
+            <li
+              key={result.document.slug}
+              id={`${listboxId}-option-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              data-index={index}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              <Link
+                href={hrefFor(result)}
+                tabIndex={-1}
+                className={cn(
+                  "block px-4 py-3",
+                  index === activeIndex && "bg-neutral-100 dark:bg-slate-800",
+                )}
+              >
+                <span className="block font-bold">
+                  <Highlighted
+                    text={result.document.title}
+                    ranges={result.titleRanges}
+                  />
+                </span>
+                <span className="mt-1 block text-sm text-neutral-600 dark:text-slate-400">
+                  <Highlighted
+                    text={result.snippet}
+                    ranges={result.snippetRanges}
+                  />
+                </span>
+              </Link>
+            </li>
+          ))}
+      </ul>
+    </section>
+  );
+}
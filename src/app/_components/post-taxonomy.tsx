@@ -0,0 +1,38 @@
+import Link from "@/app/_components/link";
+import { categoryHref, tagHref } from "@/lib/taxonomy";
+
+type Props = {
+  tags: string[];
+  category?: string;
+};
+
+export function PostTaxonomy({ tags, category }: Props) {
+  if (!category && tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="flex flex-wrap gap-2 text-sm">
+      {category && (
+        <li>
+          <Link
+            href={categoryHref(category)}
+            className="inline-block px-3 py-1 rounded-full bg-indigo-600 text-white hover:bg-indigo-700 duration-200 transition-colors"
+          >
+            {category}
+          </Link>
+        </li>
+      )}
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Link
+            href={tagHref(tag)}
+            className="inline-block px-3 py-1 rounded-full bg-neutral-100 text-neutral-700 hover:bg-neutral-200 dark:bg-slate-800 dark:text-slate-300 duration-200 transition-colors"
+          >
+            #{tag}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
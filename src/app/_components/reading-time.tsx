@@ -0,0 +1,21 @@
+"use client";
+
+import { formatMessage, formatPlural } from "@/lib/i18n/format";
+import { useLocale, useMessages } from "./locale-provider";
+
+type Props = {
+  readingTime: number;
+  wordCount: number;
+};
+
+export function ReadingTime({ readingTime, wordCount }: Props) {
+  const locale = useLocale();
+  const { blog } = useMessages();
+
+  return (
+    <span className="text-neutral-500 dark:text-slate-400">
+      {formatMessage(blog.readingTime, { minutes: readingTime })} ·{" "}
+      {formatPlural(blog.words, wordCount, locale)}
+    </span>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import cn from "classnames";
+import { NAV_ITEMS, SITE_NAME } from "@/lib/constants";
+import { splitLocalePath } from "@/lib/i18n/config";
+import { Menu, Rocket, X } from "lucide-react";
+import { usePathname } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import Link from "./link";
+import { useMessages } from "./locale-provider";
+import { LocaleSwitcher } from "./locale-switcher";
+
+// `pathname` may carry a locale prefix; NAV_ITEMS hrefs don't
+function isActive(pathname: string, href: string) {
+  const { path } = splitLocalePath(pathname);
+  return href === "/" ? path === "/" : path.startsWith(href);
+}
+
+export function SiteHeader() {
+  const pathname = usePathname();
+  const messages = useMessages();
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const menuButtonRef = useRef<HTMLButtonElement>(null);
+  const drawerRef = useRef<HTMLDivElement>(null);
+
+  // Close the drawer whenever a link navigates somewhere
+  useEffect(() => {
+    setIsMenuOpen(false);
+  }, [pathname]);
+
+  useEffect(() => {
+    if (!isMenuOpen) return;
+
+    const drawer = drawerRef.current;
+    const focusable = () =>
+      Array.from(
+        drawer?.querySelectorAll<HTMLElement>("a[href], button") ?? [],
+      );
+    focusable()[0]?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setIsMenuOpen(false);
+        return;
+      }
+      // Keep Tab inside the drawer while it is open
+      if (e.key === "Tab") {
+        const items = focusable();
+        const first = items[0];
+        const last = items[items.length - 1];
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last?.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first?.focus();
+        }
+      }
+    };
+
+    const { overflow } = document.body.style;
+    document.body.style.overflow = "hidden";
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.body.style.overflow = overflow;
+      document.removeEventListener("keydown", handleKeyDown);
+      menuButtonRef.current?.focus();
+    };
+  }, [isMenuOpen]);
+
+  return (
+    <header className="bg-white shadow p-4 sticky top-0 z-30">
+      <div className="container mx-auto flex items-center justify-between">
+        <Link href="/" className="flex items-center">
+          <Rocket size={32} className="text-indigo-600 mr-2" />
+          <span className="text-2xl font-bold">{SITE_NAME}</span>
+        </Link>
+        <div className="hidden md:flex items-center space-x-8">
+          <nav aria-label={messages.header.main}>
+            <ul className="flex space-x-4">
+              {NAV_ITEMS.map(({ href, key }) => (
+                <li key={href}>
+                  <Link
+                    href={href}
+                    aria-current={isActive(pathname, href) ? "page" : undefined}
+                    className={cn(
+                      "text-lg font-medium hover:text-indigo-600",
+                      {
+                        "text-indigo-600": isActive(pathname, href),
+                        "text-gray-600": !isActive(pathname, href),
+                      },
+                    )}
+                  >
+                    {messages.nav[key]}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+          <LocaleSwitcher />
+        </div>
+        <button
+          ref={menuButtonRef}
+          type="button"
+          className="md:hidden p-2 -mr-2"
+          aria-label={messages.header.openMenu}
+          aria-expanded={isMenuOpen}
+          aria-controls="mobile-nav"
+          onClick={() => setIsMenuOpen(true)}
+        >
+          <Menu size={24} />
+        </button>
+      </div>
+
+      <div
+        className={cn("fixed inset-0 z-40 md:hidden", {
+          "pointer-events-none": !isMenuOpen,
+        })}
+        aria-hidden={!isMenuOpen}
+      >
+        <div
+          className={cn("absolute inset-0 bg-black/40 transition-opacity", {
+            "opacity-100": isMenuOpen,
+            "opacity-0": !isMenuOpen,
+          })}
+          onClick={() => setIsMenuOpen(false)}
+        />
+        <div
+          ref={drawerRef}
+          id="mobile-nav"
+          role="dialog"
+          aria-modal="true"
+          aria-label={messages.header.mainMenu}
+          className={cn(
+            "absolute inset-y-0 right-0 w-64 max-w-[80vw] bg-white shadow-xl p-6 transition-transform duration-300",
+            {
+              "translate-x-0": isMenuOpen,
+              "translate-x-full": !isMenuOpen,
+            },
+          )}
+        >
+          <div className="flex items-center justify-between mb-8">
+            <span className="text-xl font-bold">{messages.header.menu}</span>
+            <button
+              type="button"
+              className="p-2 -mr-2"
+              aria-label={messages.header.closeMenu}
+              onClick={() => setIsMenuOpen(false)}
+              tabIndex={isMenuOpen ? 0 : -1}
+            >
+              <X size={24} />
+            </button>
+          </div>
+          <nav aria-label={messages.header.mobile}>
+            <ul className="space-y-4">
+              {NAV_ITEMS.map(({ href, key }) => (
+                <li key={href}>
+                  <Link
+                    href={href}
+                    aria-current={isActive(pathname, href) ? "page" : undefined}
+                    tabIndex={isMenuOpen ? 0 : -1}
+                    onClick={() => setIsMenuOpen(false)}
+                    className={cn("block text-lg font-medium", {
+                      "text-indigo-600": isActive(pathname, href),
+                      "text-gray-700 hover:text-indigo-600": !isActive(
+                        pathname,
+                        href,
+                      ),
+                    })}
+                  >
+                    {messages.nav[key]}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+          <LocaleSwitcher
+            className="mt-8 text-lg"
+            tabIndex={isMenuOpen ? 0 : -1}
+          />
+        </div>
+      </div>
+    </header>
+  );
+}
+
+export default SiteHeader;
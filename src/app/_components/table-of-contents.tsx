@@ -0,0 +1,31 @@
+import { TocEntry } from "@/interfaces/toc";
+import { getRequestMessages } from "@/lib/i18n/request";
+
+type Props = {
+  entries: TocEntry[];
+};
+
+export function TableOfContents({ entries }: Props) {
+  return (
+    <nav aria-labelledby="toc-heading" className="text-sm">
+      <h2
+        id="toc-heading"
+        className="mb-3 font-bold uppercase tracking-wide text-neutral-500"
+      >
+        {getRequestMessages().blog.onThisPage}
+      </h2>
+      <ol className="space-y-2 border-l border-neutral-200 dark:border-slate-700">
+        {entries.map((entry) => (
+          <li key={entry.id} className={entry.depth === 3 ? "pl-4" : undefined}>
+            <a
+              href={`#${entry.id}`}
+              className="-ml-px block border-l border-transparent pl-4 hover:border-neutral-500 hover:underline"
+            >
+              {entry.text}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,58 @@
+import Link from "@/app/_components/link";
+import { Term } from "@/interfaces/term";
+import { getRequestMessages } from "@/lib/i18n/request";
+import { tagHref } from "@/lib/taxonomy";
+import cn from "classnames";
+
+type Props = {
+  tags: Term[];
+  activeSlug?: string;
+};
+
+// Scale chips between text-sm and text-2xl by how often the tag is used.
+const SIZES = ["text-sm", "text-base", "text-lg", "text-xl", "text-2xl"];
+
+export function TagCloud({ tags, activeSlug }: Props) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const max = Math.max(...tags.map((tag) => tag.count));
+  const min = Math.min(...tags.map((tag) => tag.count));
+
+  const sizeFor = (count: number) => {
+    if (max === min) return SIZES[1];
+    const step = (count - min) / (max - min);
+    return SIZES[Math.round(step * (SIZES.length - 1))];
+  };
+
+  return (
+    <section className="mb-32">
+      <h2 className="mb-8 text-3xl md:text-4xl font-bold tracking-tighter leading-tight">
+        {getRequestMessages().taxonomy.browseByTag}
+      </h2>
+      <ul className="flex flex-wrap items-baseline gap-x-6 gap-y-3">
+        {[...tags]
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((tag) => (
+            <li key={tag.slug}>
+              <Link
+                href={tagHref(tag.name)}
+                aria-current={tag.slug === activeSlug ? "page" : undefined}
+                className={cn(
+                  "hover:underline",
+                  sizeFor(tag.count),
+                  tag.slug === activeSlug && "font-bold text-indigo-600",
+                )}
+              >
+                #{tag.name}
+                <span className="ml-1 text-sm text-neutral-500">
+                  ({tag.count})
+                </span>
+              </Link>
+            </li>
+          ))}
+      </ul>
+    </section>
+  );
+}
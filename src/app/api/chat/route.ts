@@ -0,0 +1,48 @@
+import {
+  chatErrorResponse,
+  checkRateLimit,
+  fetchBackend,
+  readChatLocale,
+} from "@/lib/chat/server";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const sessionId = request.headers.get("X-Session-ID");
+
+  const limited = checkRateLimit(request, "chat", sessionId);
+  if (limited) return limited;
+
+  let message: unknown;
+  let locale: unknown;
+  try {
+    ({ message, locale } = await request.json());
+  } catch {
+    return chatErrorResponse("bad_request", "Request body must be JSON.", 400);
+  }
+  if (typeof message !== "string" || !message.trim()) {
+    return chatErrorResponse("bad_request", "A message is required.", 400);
+  }
+
+  const chatLocale = readChatLocale(locale);
+  const result = await fetchBackend("/api/chat", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept-Language": chatLocale,
+      ...(sessionId ? { "X-Session-ID": sessionId } : {}),
+    },
+    body: JSON.stringify({ message, locale: chatLocale }),
+    // Stop the upstream request when the browser goes away.
+    signal: request.signal,
+  });
+  if ("error" in result) return result.error;
+
+  return new Response(result.response.body, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,34 @@
+import {
+  chatErrorResponse,
+  checkRateLimit,
+  fetchBackend,
+  readChatLocale,
+} from "@/lib/chat/server";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const limited = checkRateLimit(request, "common-questions");
+  if (limited) return limited;
+
+  const locale = readChatLocale(
+    new URL(request.url).searchParams.get("locale"),
+  );
+  const result = await fetchBackend("/api/common-questions", {
+    headers: { "Accept-Language": locale },
+  });
+  if ("error" in result) return result.error;
+
+  try {
+    const data = await result.response.json();
+    return Response.json({
+      questions: Array.isArray(data.questions) ? data.questions : [],
+    });
+  } catch {
+    return chatErrorResponse(
+      "backend_error",
+      "The assistant sent an unreadable answer.",
+      502,
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  type ContactApiResponse,
+  type ContactSubmission,
+} from "@/interfaces/contact";
+import { validateContact } from "@/lib/contact/schema";
+import { isLikelySpam } from "@/lib/contact/spam";
+import { getSubmissionStore } from "@/lib/contact/store";
+import { createRateLimiter } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/request-ip";
+import { randomUUID } from "crypto";
+
+export const dynamic = "force-dynamic";
+
+// Every post counts, including ones rejected for invalid fields, so leave
+// room for a few corrections.
+const limiter = createRateLimiter({ limit: 10, windowMs: 10 * 60_000 });
+
+function reply(body: ContactApiResponse, status = 200) {
+  return Response.json(body, { status });
+}
+
+export async function POST(request: Request) {
+  const ip = getClientIp(request);
+
+  // Counted before anything else, so invalid and spam posts are throttled too.
+  const limit = limiter.check(ip);
+  if (!limit.allowed) {
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "rate_limited",
+          message: `Too many messages. Please try again in ${Math.ceil(limit.retryAfter / 60)} minutes.`,
+        },
+      },
+      429,
+    );
+  }
+
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return reply(
+      {
+        ok: false,
+        error: { code: "invalid", message: "Request body must be JSON." },
+      },
+      400,
+    );
+  }
+
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "invalid",
+          message: "Request body must be a JSON object.",
+        },
+      },
+      400,
+    );
+  }
+
+  const validation = validateContact(input);
+  if (!validation.success) {
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "invalid",
+          message: "Please fix the highlighted fields.",
+          fieldErrors: validation.fieldErrors,
+        },
+      },
+      422,
+    );
+  }
+
+  // Keep the message vague so bots learn nothing from it.
+  if (isLikelySpam(input)) {
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "spam",
+          message: "We couldn't send your message. Please try again.",
+        },
+      },
+      400,
+    );
+  }
+
+  const submission: ContactSubmission = {
+    ...validation.data,
+    id: randomUUID(),
+    submittedAt: new Date().toISOString(),
+    ip,
+  };
+  try {
+    await getSubmissionStore().save(submission);
+  } catch (e) {
+    console.error("Failed to store contact submission:", e);
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "server_error",
+          message: "Something went wrong on our side. Please try again later.",
+        },
+      },
+      500,
+    );
+  }
+
+  return reply({ ok: true, id: submission.id });
+}
@@ -0,0 +1,19 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  (await draftMode()).disable();
+
+  // Send people back to the page they were previewing
+  const { origin } = new URL(request.url);
+  let back = "/blog";
+  try {
+    const referer = new URL(request.headers.get("referer") ?? "");
+    if (referer.origin === origin) back = referer.pathname;
+  } catch {
+    // Missing or malformed Referer: fall back to the blog
+  }
+  redirect(back);
+}
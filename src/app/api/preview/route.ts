@@ -0,0 +1,40 @@
+import { getPostSlugs } from "@/lib/api";
+import { timingSafeEqual } from "crypto";
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+
+export const dynamic = "force-dynamic";
+
+function isValidSecret(secret: string | null) {
+  const expected = process.env.DRAFT_MODE_SECRET;
+  if (!expected || !secret) return false;
+  const a = Buffer.from(secret);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Turns on draft mode and opens a post, drafts included:
+ * `/api/preview?secret=<DRAFT_MODE_SECRET>&slug=<post slug>`.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  if (!isValidSecret(searchParams.get("secret"))) {
+    return Response.json(
+      { error: { code: "unauthorized", message: "Invalid preview token." } },
+      { status: 401 },
+    );
+  }
+
+  const slug = searchParams.get("slug");
+  if (slug && !getPostSlugs().includes(`${slug}.md`)) {
+    return Response.json(
+      { error: { code: "not_found", message: `No post "${slug}".` } },
+      { status: 404 },
+    );
+  }
+
+  (await draftMode()).enable();
+  redirect(slug ? `/posts/${slug}` : "/blog");
+}
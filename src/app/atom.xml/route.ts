@@ -0,0 +1,9 @@
+import { buildAtomFeed } from "@/lib/feed";
+
+export const dynamic = "force-static";
+
+export async function GET() {
+  return new Response(await buildAtomFeed(), {
+    headers: { "Content-Type": "application/atom+xml; charset=utf-8" },
+  });
+}
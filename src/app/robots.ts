@@ -0,0 +1,15 @@
+import { SITE_URL } from "@/lib/constants";
+import { absoluteUrl } from "@/lib/url";
+import type { MetadataRoute } from "next";
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      disallow: "/api/",
+    },
+    sitemap: absoluteUrl("/sitemap.xml"),
+    host: SITE_URL,
+  };
+}
@@ -0,0 +1,7 @@
+import { buildSearchIndex } from "@/lib/search-index";
+
+export const dynamic = "force-static";
+
+export async function GET() {
+  return Response.json(buildSearchIndex());
+}
@@ -0,0 +1,91 @@
+import { getAllCategories, getAllPosts, getAllTags } from "@/lib/api";
+import { getAllAuthors } from "@/lib/authors";
+import { getAllJobs } from "@/lib/careers";
+import { NAV_ITEMS, POSTS_PER_PAGE } from "@/lib/constants";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  localizePath,
+  type Locale,
+} from "@/lib/i18n/config";
+import { blogPageHref, pageCount } from "@/lib/pagination";
+import { categoryHref, tagHref } from "@/lib/taxonomy";
+import { absoluteUrl } from "@/lib/url";
+import type { MetadataRoute } from "next";
+
+// hreflang links from a page to its versions in other languages
+function alternates(path: string, locales: readonly Locale[] = LOCALES) {
+  return {
+    languages: Object.fromEntries(
+      locales.map((locale) => [
+        locale,
+        absoluteUrl(localizePath(path, locale)),
+      ]),
+    ),
+  };
+}
+
+export default function sitemap(): MetadataRoute.Sitemap {
+  const posts = getAllPosts().filter((post) => !post.preview);
+  const jobs = getAllJobs().filter((job) => !job.closed);
+
+  const staticRoutes: MetadataRoute.Sitemap = NAV_ITEMS.map(({ href }) => ({
+    url: absoluteUrl(href),
+    changeFrequency: href === "/blog" ? "weekly" : "monthly",
+    priority: href === "/" ? 1 : 0.8,
+    // The blog index changes whenever a post is published.
+    lastModified: href === "/blog" ? posts[0]?.date : undefined,
+    alternates: alternates(href),
+  }));
+
+  const blogPages = Array.from(
+    { length: pageCount(posts.length, POSTS_PER_PAGE) - 1 },
+    (_, i) => ({
+      url: absoluteUrl(blogPageHref(i + 2)),
+      changeFrequency: "weekly" as const,
+      priority: 0.5,
+    }),
+  );
+
+  return [
+    ...staticRoutes,
+    ...blogPages,
+    {
+      url: absoluteUrl("/blog/archive"),
+      lastModified: posts[0]?.date,
+      changeFrequency: "weekly" as const,
+      priority: 0.5,
+    },
+    ...jobs.map((job) => ({
+      url: absoluteUrl(`/careers/${job.slug}`),
+      lastModified: job.postedDate,
+      changeFrequency: "monthly" as const,
+      priority: 0.6,
+    })),
+    ...getAllCategories().map((category) => ({
+      url: absoluteUrl(categoryHref(category.name)),
+      changeFrequency: "weekly" as const,
+      priority: 0.5,
+    })),
+    ...getAllAuthors().map((author) => ({
+      url: absoluteUrl(`/authors/${author.id}`),
+      changeFrequency: "monthly" as const,
+      priority: 0.4,
+    })),
+    ...getAllTags().map((tag) => ({
+      url: absoluteUrl(tagHref(tag.name)),
+      changeFrequency: "weekly" as const,
+      priority: 0.4,
+    })),
+    ...posts.map((post) => ({
+      url: absoluteUrl(`/posts/${post.slug}`),
+      lastModified: post.date,
+      changeFrequency: "yearly" as const,
+      priority: 0.7,
+      alternates: alternates(`/posts/${post.slug}`, [
+        DEFAULT_LOCALE,
+        ...post.translations,
+      ]),
+    })),
+  ];
+}
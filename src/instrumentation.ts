@@ -0,0 +1,6 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { assertProxyConfig } = await import("@/lib/request-ip");
+    assertProxyConfig();
+  }
+}
@@ -0,0 +1,20 @@
+import { type Post } from "./post";
+
+export type ArchiveMonth = {
+  // 1–12
+  month: number;
+  count: number;
+  posts: Post[];
+};
+
+export type ArchiveYear = {
+  year: number;
+  count: number;
+  months: ArchiveMonth[];
+};
+
+export type PostPage = {
+  posts: Post[];
+  page: number;
+  totalPages: number;
+};
@@ -1,4 +1,16 @@
+export type AuthorSocial = {
+  website?: string;
+  github?: string;
+  twitter?: string;
+  linkedin?: string;
+};
+
 export type Author = {
+  id: string;
   name: string;
   picture: string;
+  role?: string;
+  // Markdown
+  bio: string;
+  social: AuthorSocial;
 };
@@ -0,0 +1,71 @@
+export type ChatBooking = {
+  slot?: string;
+  reference?: string;
+  name?: string;
+  email?: string;
+};
+
+/**
+ * One NDJSON line as written by the `/api/chat` backend. `response_chunk`
+ * carries the full reply text so far, not a delta. Structured booking lines
+ * set `type` instead.
+ */
+export type ChatResponseLine =
+  | {
+      type?: undefined;
+      response_chunk?: string;
+      is_final?: boolean;
+      error?: string;
+    }
+  | { type: "time_slots"; slots: string[] }
+  | { type: "booking_confirmed"; booking?: ChatBooking };
+
+export type ChatEvent =
+  | { type: "response_chunk"; text: string }
+  | { type: "time_slots"; slots: string[] }
+  | { type: "booking_confirmed"; booking: ChatBooking }
+  | { type: "final"; text: string }
+  | { type: "error"; message: string };
+
+export type ChatRequest = {
+  message: string;
+  sessionId: string;
+  // Language the visitor is reading the site in, e.g. "fr"
+  locale?: string;
+};
+
+export type ChatDeliveryStatus = "queued" | "sending" | "sent" | "failed";
+
+export type ChatMessage = {
+  id: string;
+  sender: "user" | "bot";
+  text: string;
+  timestamp?: string;
+  isError?: boolean;
+  // Delivery state of a user message; `queued` ones wait for the browser to go online.
+  status?: ChatDeliveryStatus;
+  // For bot messages, the id of the user message they answer.
+  replyTo?: string;
+  // Set when the reply was cancelled part-way through streaming.
+  isStopped?: boolean;
+  timeSlots?: string[];
+  booking?: ChatBooking;
+};
+
+export type ChatApiErrorCode =
+  | "bad_request"
+  | "rate_limited"
+  | "backend_unavailable"
+  | "backend_error";
+
+/**
+ * Body of every non-2xx response from the `/api/chat` and
+ * `/api/common-questions` route handlers.
+ */
+export type ChatApiErrorBody = {
+  error: {
+    code: ChatApiErrorCode;
+    message: string;
+    retryAfter?: number;
+  };
+};
@@ -0,0 +1,48 @@
+export type ContactTopic =
+  | "general"
+  | "services"
+  | "booking"
+  | "careers"
+  | "support";
+
+export type ContactFormValues = {
+  name: string;
+  email: string;
+  company: string;
+  topic: ContactTopic;
+  message: string;
+};
+
+// The form shows the matching text from the message catalogs.
+export type ContactFieldErrorCode =
+  | "required"
+  | "invalid"
+  | "too_short"
+  | "too_long";
+
+export type ContactFieldErrors = Partial<
+  Record<keyof ContactFormValues, ContactFieldErrorCode>
+>;
+
+export type ContactSubmission = ContactFormValues & {
+  id: string;
+  submittedAt: string;
+  ip: string;
+};
+
+export type ContactErrorCode =
+  | "invalid"
+  | "spam"
+  | "rate_limited"
+  | "server_error";
+
+export type ContactApiResponse =
+  | { ok: true; id: string }
+  | {
+      ok: false;
+      error: {
+        code: ContactErrorCode;
+        message: string;
+        fieldErrors?: ContactFieldErrors;
+      };
+    };
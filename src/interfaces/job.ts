@@ -0,0 +1,17 @@
+export type EmploymentType =
+  | "full-time"
+  | "part-time"
+  | "contract"
+  | "internship";
+
+export type Job = {
+  slug: string;
+  title: string;
+  team: string;
+  location: string;
+  employmentType: EmploymentType;
+  postedDate: string;
+  summary: string;
+  closed: boolean;
+  content: string;
+};
@@ -1,3 +1,4 @@
+import { type Locale } from "@/lib/i18n/config";
 import { type Author } from "./author";
 
 export type Post = {
@@ -7,9 +8,20 @@ export type Post = {
   coverImage: string;
   author: Author;
   excerpt: string;
-  ogImage: {
+  // Replaces the generated Open Graph card when set
+  ogImage?: {
     url: string;
   };
   content: string;
+  wordCount: number;
+  // Minutes, rounded up
+  readingTime: number;
   preview?: boolean;
+  draft: boolean;
+  tags: string[];
+  category?: string;
+  // Language of the title, excerpt and content
+  locale: Locale;
+  // Locales with a translation of this post, besides the default
+  translations: Locale[];
 };
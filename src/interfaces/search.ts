@@ -0,0 +1,23 @@
+import { type Locale } from "@/lib/i18n/config";
+
+export type SearchDocument = {
+  slug: string;
+  // Language the document is written in
+  locale: Locale;
+  title: string;
+  excerpt: string;
+  headings: string[];
+  body: string;
+  date: string;
+};
+
+// [start, end) offsets of a match inside a piece of text.
+export type SearchRange = [number, number];
+
+export type SearchResult = {
+  document: SearchDocument;
+  score: number;
+  titleRanges: SearchRange[];
+  snippet: string;
+  snippetRanges: SearchRange[];
+};
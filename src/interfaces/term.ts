@@ -0,0 +1,6 @@
+// A tag or category together with how many posts use it.
+export type Term = {
+  name: string;
+  slug: string;
+  count: number;
+};
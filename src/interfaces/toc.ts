@@ -0,0 +1,5 @@
+export type TocEntry = {
+  id: string;
+  text: string;
+  depth: 2 | 3;
+};
@@ -1,28 +1,252 @@
+import { ArchiveYear, PostPage } from "@/interfaces/archive";
 import { Post } from "@/interfaces/post";
-import fs from "fs";
-import matter from "gray-matter";
-import { join } from "path";
+import { Term } from "@/interfaces/term";
+import { POSTS_PER_PAGE } from "@/lib/constants";
+import { getContentIndex } from "@/lib/content-index";
+import { DEFAULT_LOCALE, Locale } from "@/lib/i18n/config";
+import { pageCount } from "@/lib/pagination";
+import { ContentValidationError } from "@/lib/post-schema";
+import { slugify } from "@/lib/taxonomy";
 
-const postsDirectory = join(process.cwd(), "_posts");
+// Drafts show up everywhere while developing. In production they are left
+// out of listings, feeds and static params, and only open in draft mode.
+const SHOW_DRAFTS = process.env.NODE_ENV !== "production";
 
+// Original posts only; translations share their original's slug.
 export function getPostSlugs() {
-  return fs.readdirSync(postsDirectory);
+  const { bySlug, issuesBySlug } = getContentIndex();
+  const slugs = new Set([...bySlug.keys(), ...issuesBySlug.keys()]);
+  return Array.from(slugs, (slug) => `${slug}.md`);
 }
 
-export function getPostBySlug(slug: string) {
+// The post in `locale`, or the original when it hasn't been translated
+function localize(post: Post, locale: Locale) {
+  return getContentIndex().translations.get(locale)?.get(post.slug) ?? post;
+}
+
+export function getPostBySlug(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE,
+): Post {
   const realSlug = slug.replace(/\.md$/, "");
-  const fullPath = join(postsDirectory, `${realSlug}.md`);
-  const fileContents = fs.readFileSync(fullPath, "utf8");
-  const { data, content } = matter(fileContents);
+  const { bySlug, issuesBySlug } = getContentIndex();
+
+  const issues = issuesBySlug.get(realSlug);
+  if (issues) {
+    throw new ContentValidationError(issues);
+  }
+  const post = bySlug.get(realSlug);
+  if (!post) {
+    throw new Error(`No post at _posts/${realSlug}.md`);
+  }
+  return localize(post, locale);
+}
+
+/**
+ * Every valid post, and what is wrong with the others, so all invalid files
+ * can be reported at once.
+ */
+export function loadPosts() {
+  const { posts, issues } = getContentIndex();
+  return { posts, issues };
+}
+
+export function canViewPost(post: Post, draftModeEnabled = false) {
+  return !post.draft || SHOW_DRAFTS || draftModeEnabled;
+}
+
+// Listings refuse to render while any post is invalid.
+function getValidIndex() {
+  const index = getContentIndex();
+  if (index.issues.length > 0) {
+    throw new ContentValidationError(index.issues);
+  }
+  return index;
+}
+
+export function getAllPosts(locale: Locale = DEFAULT_LOCALE): Post[] {
+  return getValidIndex()
+    .posts.filter((post) => canViewPost(post))
+    .map((post) => localize(post, locale));
+}
+
+/**
+ * One page of the blog listing, or null past the last page.
+ */
+export function getPostsPage(
+  page: number,
+  locale: Locale = DEFAULT_LOCALE,
+): PostPage | null {
+  const posts = getAllPosts(locale);
+  const totalPages = pageCount(posts.length, POSTS_PER_PAGE);
+  if (!Number.isInteger(page) || page < 1 || page > totalPages) return null;
+
+  const start = (page - 1) * POSTS_PER_PAGE;
+  return {
+    posts: posts.slice(start, start + POSTS_PER_PAGE),
+    page,
+    totalPages,
+  };
+}
+
+export function getPostArchive(
+  locale: Locale = DEFAULT_LOCALE,
+): ArchiveYear[] {
+  const years: ArchiveYear[] = [];
+  // getAllPosts is newest first, so groups come out in order
+  for (const post of getAllPosts(locale)) {
+    const date = new Date(post.date);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+
+    let yearGroup = years[years.length - 1];
+    if (yearGroup?.year !== year) {
+      yearGroup = { year, count: 0, months: [] };
+      years.push(yearGroup);
+    }
+    let monthGroup = yearGroup.months[yearGroup.months.length - 1];
+    if (monthGroup?.month !== month) {
+      monthGroup = { month, count: 0, posts: [] };
+      yearGroup.months.push(monthGroup);
+    }
+    yearGroup.count++;
+    monthGroup.count++;
+    monthGroup.posts.push(post);
+  }
+  return years;
+}
+
+/**
+ * The posts published just before and after `slug`.
+ */
+export function getAdjacentPosts(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE,
+) {
+  const posts = getAllPosts(locale);
+  const index = posts.findIndex((post) => post.slug === slug);
+  if (index === -1) return { previous: null, next: null };
 
-  return { ...data, slug: realSlug, content } as Post;
+  return {
+    previous: posts[index + 1] ?? null,
+    next: index > 0 ? posts[index - 1] : null,
+  };
 }
 
-export function getAllPosts(): Post[] {
-  const slugs = getPostSlugs();
-  const posts = slugs
-    .map((slug) => getPostBySlug(slug))
-    // sort posts by date in descending order
-    .sort((post1, post2) => (post1.date > post2.date ? -1 : 1));
-  return posts;
+function collectTerms(posts: Post[], termsOf: (post: Post) => string[]) {
+  const terms = new Map<string, Term>();
+  for (const post of posts) {
+    for (const name of termsOf(post)) {
+      const slug = slugify(name);
+      const term = terms.get(slug);
+      if (term) term.count++;
+      else terms.set(slug, { name, slug, count: 1 });
+    }
+  }
+  // most used first, then alphabetical
+  return Array.from(terms.values()).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name),
+  );
+}
+
+export function getAllTags(): Term[] {
+  return collectTerms(getAllPosts(), (post) => post.tags);
+}
+
+export function getAllCategories(): Term[] {
+  return collectTerms(getAllPosts(), (post) =>
+    post.category ? [post.category] : [],
+  );
+}
+
+export function getPostsByTag(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE,
+): Post[] {
+  return (getValidIndex().byTag.get(slug) ?? [])
+    .filter((post) => canViewPost(post))
+    .map((post) => localize(post, locale));
+}
+
+export function getPostsByAuthor(
+  id: string,
+  locale: Locale = DEFAULT_LOCALE,
+): Post[] {
+  return (getValidIndex().byAuthor.get(id) ?? [])
+    .filter((post) => canViewPost(post))
+    .map((post) => localize(post, locale));
+}
+
+export function getPostsByCategory(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE,
+): Post[] {
+  return getAllPosts(locale).filter(
+    (post) => post.category && slugify(post.category) === slug,
+  );
+}
+
+// Too common to say anything about what a post is about.
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be but by can do for from has have how i if in into " +
+    "is it its more not of on or our so than that the their then there " +
+    "these this to up use was we what when which will with you your"
+  ).split(" "),
+);
+
+function termFrequencies(post: Post) {
+  const frequencies = new Map<string, number>();
+  const words =
+    `${post.title} ${post.excerpt} ${post.content}`
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (const word of words) {
+    if (word.length < 3 || STOP_WORDS.has(word)) continue;
+    frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+  }
+  return frequencies;
+}
+
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>) {
+  let dot = 0;
+  for (const [word, count] of a) dot += count * (b.get(word) ?? 0);
+  if (dot === 0) return 0;
+  const norm = (v: Map<string, number>) =>
+    Math.sqrt(Array.from(v.values()).reduce((sum, n) => sum + n * n, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+/**
+ * Posts most like `post`: each shared tag outweighs any amount of text
+ * similarity, which breaks ties. Topped up with the most recent posts when
+ * too few are related. Posts are compared in the default language and
+ * returned in `locale`.
+ */
+export function getRelatedPosts(
+  post: Post,
+  locale: Locale = DEFAULT_LOCALE,
+  limit = 2,
+): Post[] {
+  const others = getAllPosts().filter((other) => other.slug !== post.slug);
+  const tags = new Set(post.tags.map(slugify));
+  const frequencies = termFrequencies(getPostBySlug(post.slug));
+
+  const related = others
+    .map((other) => ({
+      post: other,
+      score:
+        other.tags.filter((tag) => tags.has(slugify(tag))).length +
+        cosineSimilarity(frequencies, termFrequencies(other)),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ post }) => post)
+    .slice(0, limit);
+
+  // others is already newest first
+  const recent = others.filter((other) => !related.includes(other));
+  return [...related, ...recent]
+    .slice(0, limit)
+    .map((other) => localize(other, locale));
 }
@@ -0,0 +1,96 @@
+import { Author } from "@/interfaces/author";
+import { createFileCache } from "@/lib/file-cache";
+import {
+  ContentIssue,
+  ContentValidationError,
+  optionalString,
+  parseFrontmatter,
+  requiredString,
+} from "@/lib/post-schema";
+import fs from "fs";
+import matter from "gray-matter";
+import { basename, join } from "path";
+import { z } from "zod";
+
+export const authorsDirectory = join(process.cwd(), "_authors");
+
+// Rendered as links, so anything but a web address (e.g. `javascript:`) is out
+const webUrl = (field: string) =>
+  requiredString(field).refine((value) => /^https?:\/\/[^/]/i.test(value), {
+    message: `${field} must be an http(s) URL`,
+  });
+
+/**
+ * Front matter of a file in `_authors`; the body is the author's bio.
+ */
+export const authorFrontmatterSchema = z.object({
+  name: requiredString("name"),
+  picture: requiredString("picture"),
+  role: optionalString("role")
+    .optional()
+    .transform((value) => value || undefined),
+  social: z
+    .object(
+      {
+        website: webUrl("social.website").optional(),
+        github: webUrl("social.github").optional(),
+        twitter: webUrl("social.twitter").optional(),
+        linkedin: webUrl("social.linkedin").optional(),
+      },
+      { invalid_type_error: "social must be a map of links" },
+    )
+    .default({}),
+});
+
+const authorFiles = createFileCache(
+  (contents, path): Author | ContentIssue[] => {
+    const { data, content } = matter(contents);
+    try {
+      const frontmatter = parseFrontmatter(
+        authorFrontmatterSchema,
+        data,
+        `_authors/${basename(path)}`,
+      );
+      return { ...frontmatter, id: basename(path, ".md"), bio: content.trim() };
+    } catch (error) {
+      if (error instanceof ContentValidationError) return error.issues;
+      throw error;
+    }
+  },
+);
+
+export function getAuthorIds() {
+  return fs
+    .readdirSync(authorsDirectory)
+    .filter((file) => file.endsWith(".md"))
+    .map((file) => file.replace(/\.md$/, ""));
+}
+
+/**
+ * The author in `_authors/<id>.md`, or null if there is none. Throws a
+ * ContentValidationError if the file is invalid.
+ */
+export function getAuthorById(id: string): Author | null {
+  if (!getAuthorIds().includes(id)) return null;
+
+  const author = authorFiles.read(join(authorsDirectory, `${id}.md`));
+  if (Array.isArray(author)) throw new ContentValidationError(author);
+  return author;
+}
+
+/**
+ * Every author by name. Throws a ContentValidationError listing each
+ * invalid file.
+ */
+export function getAllAuthors(): Author[] {
+  const authors: Author[] = [];
+  const issues: ContentIssue[] = [];
+  for (const id of getAuthorIds()) {
+    const author = authorFiles.read(join(authorsDirectory, `${id}.md`));
+    if (Array.isArray(author)) issues.push(...author);
+    else authors.push(author);
+  }
+  if (issues.length > 0) throw new ContentValidationError(issues);
+
+  return authors.sort((a, b) => a.name.localeCompare(b.name));
+}
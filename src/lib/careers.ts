@@ -0,0 +1,134 @@
+import { EmploymentType, Job } from "@/interfaces/job";
+import fs from "fs";
+import matter from "gray-matter";
+import { join } from "path";
+import { z } from "zod";
+import { SITE_NAME, SITE_URL } from "@/lib/constants";
+import {
+  ContentIssue,
+  ContentValidationError,
+  isoDate,
+  parseFrontmatter,
+  requiredString,
+} from "@/lib/post-schema";
+
+const careersDirectory = join(process.cwd(), "_careers");
+
+const EMPLOYMENT_TYPES: [EmploymentType, ...EmploymentType[]] = [
+  "full-time",
+  "part-time",
+  "contract",
+  "internship",
+];
+
+/**
+ * Front matter of a file in `_careers`.
+ */
+export const jobFrontmatterSchema = z.object({
+  title: requiredString("title"),
+  team: requiredString("team"),
+  location: requiredString("location"),
+  employmentType: z.enum(EMPLOYMENT_TYPES, {
+    errorMap: () => ({
+      message: `employmentType must be one of ${EMPLOYMENT_TYPES.join(", ")}`,
+    }),
+  }),
+  postedDate: isoDate("postedDate"),
+  summary: requiredString("summary"),
+  closed: z
+    .boolean({ invalid_type_error: "closed must be true or false" })
+    .default(false),
+});
+
+export function getJobSlugs() {
+  return fs
+    .readdirSync(careersDirectory)
+    .filter((file) => file.endsWith(".md"))
+    .map((file) => file.replace(/\.md$/, ""));
+}
+
+function readJob(slug: string): Job {
+  const file = `${slug}.md`;
+  const fileContents = fs.readFileSync(join(careersDirectory, file), "utf8");
+  const { data, content } = matter(fileContents);
+  const frontmatter = parseFrontmatter(
+    jobFrontmatterSchema,
+    data,
+    `_careers/${file}`,
+  );
+
+  return { ...frontmatter, slug, content };
+}
+
+/**
+ * The posting in `_careers/<slug>.md`, or null if there is none.
+ */
+export function getJobBySlug(slug: string): Job | null {
+  const realSlug = slug.replace(/\.md$/, "");
+  if (!getJobSlugs().includes(realSlug)) return null;
+  return readJob(realSlug);
+}
+
+/**
+ * Every posting, newest first. Throws a ContentValidationError listing each
+ * invalid file.
+ */
+export function getAllJobs(): Job[] {
+  const jobs: Job[] = [];
+  const issues: ContentIssue[] = [];
+  for (const slug of getJobSlugs()) {
+    try {
+      jobs.push(readJob(slug));
+    } catch (error) {
+      if (!(error instanceof ContentValidationError)) throw error;
+      issues.push(...error.issues);
+    }
+  }
+  if (issues.length > 0) throw new ContentValidationError(issues);
+
+  // sort jobs by posted date in descending order
+  return jobs.sort((job1, job2) =>
+    job1.postedDate > job2.postedDate ? -1 : 1,
+  );
+}
+
+const EMPLOYMENT_TYPE_SCHEMA: Record<Job["employmentType"], string> = {
+  "full-time": "FULL_TIME",
+  "part-time": "PART_TIME",
+  contract: "CONTRACTOR",
+  internship: "INTERN",
+};
+
+/**
+ * schema.org JobPosting data for search engines, see
+ * https://developers.google.com/search/docs/appearance/structured-data/job-posting
+ */
+export function getJobPostingJsonLd(job: Job, descriptionHtml: string) {
+  const isRemote = /remote/i.test(job.location);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "JobPosting",
+    title: job.title,
+    description: descriptionHtml,
+    datePosted: job.postedDate,
+    employmentType: EMPLOYMENT_TYPE_SCHEMA[job.employmentType],
+    hiringOrganization: {
+      "@type": "Organization",
+      name: SITE_NAME,
+      sameAs: SITE_URL,
+    },
+    ...(isRemote
+      ? { jobLocationType: "TELECOMMUTE" }
+      : {
+          jobLocation: {
+            "@type": "Place",
+            address: {
+              "@type": "PostalAddress",
+              addressLocality: job.location,
+            },
+          },
+        }),
+    url: `${SITE_URL}/careers/${job.slug}`,
+  };
+}
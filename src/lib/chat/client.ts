@@ -0,0 +1,185 @@
+import {
+  type ChatApiErrorBody,
+  type ChatApiErrorCode,
+  type ChatEvent,
+  type ChatRequest,
+  type ChatResponseLine,
+} from "@/interfaces/chat";
+import {
+  extractLegacyTimeSlots,
+  isLegacyBookingConfirmation,
+} from "./legacy";
+import { readNdjson } from "./ndjson";
+
+// Same origin: the app's route handlers proxy to the chat backend.
+const DEFAULT_BASE_URL = "";
+
+// "incomplete": the stream closed before the line marked `is_final`.
+export type ChatClientErrorKind = "http" | "no_body" | "network" | "incomplete";
+
+export class ChatClientError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ChatClientErrorKind,
+    readonly status?: number,
+    // Set when the route handler answered with a typed error body.
+    readonly code?: ChatApiErrorCode,
+    readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = "ChatClientError";
+  }
+}
+
+async function httpError(response: Response) {
+  let body: Partial<ChatApiErrorBody> = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Not one of our typed errors; fall back to the status code.
+  }
+  return new ChatClientError(
+    body.error?.message ?? `HTTP error! status: ${response.status}`,
+    "http",
+    response.status,
+    body.error?.code,
+    body.error?.retryAfter,
+  );
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+type ChatClientOptions = {
+  baseUrl?: string;
+};
+
+type StreamOptions = {
+  signal?: AbortSignal;
+};
+
+type CommonQuestionsOptions = {
+  signal?: AbortSignal;
+  locale?: string;
+};
+
+export type ChatClient = ReturnType<typeof createChatClient>;
+
+export function createChatClient({
+  baseUrl = DEFAULT_BASE_URL,
+}: ChatClientOptions = {}) {
+  const chatUrl = `${baseUrl}/api/chat`;
+  const commonQuestionsUrl = `${baseUrl}/api/common-questions`;
+
+  async function openStream(
+    { message, sessionId, locale }: ChatRequest,
+    signal?: AbortSignal,
+  ) {
+    let response: Response;
+    try {
+      response = await fetch(chatUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Session-ID": sessionId,
+        },
+        body: JSON.stringify({ message, locale }),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ChatClientError(
+        error instanceof Error ? error.message : String(error),
+        "network",
+      );
+    }
+
+    if (!response.ok) throw await httpError(response);
+    if (!response.body) {
+      throw new ChatClientError("No readable stream", "no_body");
+    }
+    return response.body;
+  }
+
+  /**
+   * Streams the reply to one message. Each `response_chunk` event carries
+   * the full text so far; the iterator ends after the `final` event. If the
+   * backend closes the stream before its final line, it throws a
+   * `ChatClientError` of kind `"incomplete"`, so a cut-off reply is never
+   * mistaken for a finished one. Aborting `signal` or breaking out of the
+   * loop cancels the request.
+   *
+   * Legacy `TIME_SLOTS_DISPLAY:[...]` markers and the confirmation phrase are
+   * translated into `time_slots` / `booking_confirmed` events, so callers only
+   * ever handle the structured shapes.
+   */
+  async function* streamMessage(
+    request: ChatRequest,
+    { signal }: StreamOptions = {},
+  ): AsyncGenerator<ChatEvent> {
+    const body = await openStream(request, signal);
+    let text = "";
+    let slotsSent = false;
+    let bookingConfirmed = false;
+
+    for await (const line of readNdjson<ChatResponseLine>(body)) {
+      if (line.type === "time_slots") {
+        slotsSent = true;
+        yield { type: "time_slots", slots: line.slots ?? [] };
+        continue;
+      }
+      if (line.type === "booking_confirmed") {
+        bookingConfirmed = true;
+        yield { type: "booking_confirmed", booking: line.booking ?? {} };
+        continue;
+      }
+
+      if (line.error) {
+        yield { type: "error", message: line.error };
+      }
+      if (typeof line.response_chunk === "string") {
+        const legacy = extractLegacyTimeSlots(line.response_chunk);
+        text = legacy.text;
+        yield { type: "response_chunk", text };
+        if (legacy.slots && !slotsSent) {
+          slotsSent = true;
+          yield { type: "time_slots", slots: legacy.slots };
+        }
+      }
+      if (line.is_final) {
+        if (!bookingConfirmed && isLegacyBookingConfirmation(text)) {
+          yield { type: "booking_confirmed", booking: {} };
+        }
+        yield { type: "final", text };
+        return;
+      }
+    }
+
+    // The backend may have booked the slot even though the reply was cut off.
+    if (!bookingConfirmed && isLegacyBookingConfirmation(text)) {
+      yield { type: "booking_confirmed", booking: {} };
+    }
+    throw new ChatClientError(
+      "Stream ended before the final response",
+      "incomplete",
+    );
+  }
+
+  async function getCommonQuestions({
+    signal,
+    locale,
+  }: CommonQuestionsOptions = {}): Promise<string[]> {
+    const url = locale
+      ? `${commonQuestionsUrl}?${new URLSearchParams({ locale })}`
+      : commonQuestionsUrl;
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw await httpError(response);
+    const data = await response.json();
+    return Array.isArray(data.questions) ? data.questions : [];
+  }
+
+  return { streamMessage, getCommonQuestions };
+}
+
+export const chatClient = createChatClient();
@@ -0,0 +1,27 @@
+/**
+ * Fallback parsing for backends that still embed booking state in the reply
+ * text instead of sending `time_slots` / `booking_confirmed` events.
+ */
+
+const TIME_SLOTS_MARKER = /TIME_SLOTS_DISPLAY:\[(.*?)\]/;
+const BOOKING_CONFIRMED_PHRASE = "appointment request has been submitted";
+
+export function extractLegacyTimeSlots(text: string): {
+  text: string;
+  slots: string[] | null;
+} {
+  const match = text.match(TIME_SLOTS_MARKER);
+  if (!match?.[1]) return { text, slots: null };
+
+  try {
+    const slots = JSON.parse(`[${match[1].replace(/'/g, '"')}]`);
+    return { text: text.replace(match[0], "").trim(), slots };
+  } catch (e) {
+    console.error("Failed to parse time slots:", e);
+    return { text, slots: null };
+  }
+}
+
+export function isLegacyBookingConfirmation(text: string) {
+  return text.includes(BOOKING_CONFIRMED_PHRASE);
+}
@@ -0,0 +1,130 @@
+import {
+  MOCK_COMMON_QUESTIONS,
+  findScenario,
+  type MockStep,
+} from "./fixtures";
+
+// Pause between network chunks; set to 0 for fast tests.
+const CHUNK_DELAY_MS = Number(process.env.CHAT_MOCK_DELAY_MS ?? 40);
+// How long a `timeout` scenario hangs before answering 504.
+const TIMEOUT_MS = Number(process.env.CHAT_MOCK_TIMEOUT_MS ?? 15_000);
+
+export function isMockBackendEnabled() {
+  return process.env.CHAT_BACKEND_MOCK === "1";
+}
+
+function abortError() {
+  return new DOMException("Aborted", "AbortError");
+}
+
+function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    // One listener per pause; drop it once the pause is over, or a long
+    // reply piles them up on the request's signal.
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Small seeded generator so a given message always splits the same way.
+function seededRandom(seed: string) {
+  let state = 0;
+  for (const char of seed) state = (state * 31 + char.charCodeAt(0)) | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Serializes the steps to NDJSON and cuts the bytes at arbitrary points, so
+ * lines (and multi-byte characters) regularly straddle two reads.
+ */
+function streamSteps(
+  steps: MockStep[],
+  seed: string,
+  signal?: AbortSignal | null,
+) {
+  const disconnectAt = steps.findIndex((step) => step.kind === "disconnect");
+  const payload = (disconnectAt === -1 ? steps : steps.slice(0, disconnectAt))
+    .map((step) => {
+      if (step.kind === "line") return `${JSON.stringify(step.data)}\n`;
+      return step.kind === "raw" ? step.text : "";
+    })
+    .join("");
+  const bytes = new TextEncoder().encode(payload);
+  const random = seededRandom(seed);
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (let offset = 0; offset < bytes.length; ) {
+          const size = 8 + Math.floor(random() * 56);
+          controller.enqueue(bytes.slice(offset, offset + size));
+          offset += size;
+          await sleep(CHUNK_DELAY_MS, signal);
+        }
+        if (disconnectAt === -1) controller.close();
+        else controller.error(new Error("Mock backend dropped the connection"));
+      } catch (e) {
+        controller.error(e);
+      }
+    },
+  });
+}
+
+/**
+ * Stand-in for `fetch` against the chat backend, driven by the fixtures in
+ * `./fixtures`. Enabled with `CHAT_BACKEND_MOCK=1`.
+ */
+export async function mockBackendFetch(
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const signal = init.signal;
+  await sleep(CHUNK_DELAY_MS, signal);
+
+  if (path === "/api/common-questions") {
+    return Response.json({ questions: MOCK_COMMON_QUESTIONS });
+  }
+  if (path !== "/api/chat") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  let message = "";
+  try {
+    message = JSON.parse(String(init.body)).message ?? "";
+  } catch {
+    return new Response("Bad request", { status: 400 });
+  }
+
+  const scenario = findScenario(message);
+  if (scenario.unreachable) {
+    throw new TypeError("fetch failed (mock backend unreachable)");
+  }
+  if (scenario.hang) {
+    await sleep(TIMEOUT_MS, signal);
+    return new Response("Gateway timeout", { status: 504 });
+  }
+  if (scenario.status) {
+    return new Response(`Mock ${scenario.name}`, { status: scenario.status });
+  }
+
+  const steps =
+    typeof scenario.steps === "function"
+      ? scenario.steps(message)
+      : scenario.steps;
+  return new Response(streamSteps(steps, message, signal), {
+    headers: { "Content-Type": "application/x-ndjson; charset=utf-8" },
+  });
+}
@@ -0,0 +1,209 @@
+import { type ChatResponseLine } from "@/interfaces/chat";
+
+export type MockStep =
+  | { kind: "line"; data: ChatResponseLine }
+  // Written as-is, for lines the client must survive (e.g. broken JSON).
+  | { kind: "raw"; text: string }
+  // Errors the response stream part-way through.
+  | { kind: "disconnect" };
+
+export type MockScenario = {
+  name: string;
+  // Matched against the lower-cased user message, first match wins.
+  trigger: RegExp;
+  // Answer with this HTTP status and no stream.
+  status?: number;
+  // Throw from fetch, as when the backend is not listening.
+  unreachable?: boolean;
+  // Never answer; the request ends by timing out or being aborted.
+  hang?: boolean;
+  // A function gets the user's message, for replies that echo part of it.
+  steps: MockStep[] | ((message: string) => MockStep[]);
+};
+
+export const MOCK_TIME_SLOTS = [
+  "Monday 10:00 AM",
+  "Monday 2:00 PM",
+  "Tuesday 11:00 AM",
+  "Wednesday 4:00 PM",
+];
+
+export const MOCK_COMMON_QUESTIONS = [
+  "What services does Fuzionest offer?",
+  "Tell me about the company's mission.",
+  "How can I contact the support team?",
+  "I'd like to book an appointment",
+];
+
+/**
+ * Streams `text` the way the backend does: each line repeats the full reply
+ * so far, a few words longer than the last.
+ */
+export function streamedText(text: string, wordsPerLine = 3): MockStep[] {
+  const words = text.split(/(?<=\s)/);
+  const steps: MockStep[] = [];
+  for (
+    let i = wordsPerLine;
+    i < words.length + wordsPerLine;
+    i += wordsPerLine
+  ) {
+    steps.push({
+      kind: "line",
+      data: { response_chunk: words.slice(0, i).join("") },
+    });
+  }
+  return steps;
+}
+
+const final: MockStep = { kind: "line", data: { is_final: true } };
+
+const isTimeSlot = new RegExp(
+  `^(${MOCK_TIME_SLOTS.map((slot) => slot.toLowerCase()).join("|")})$`,
+);
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  {
+    name: "booking-confirmed",
+    trigger: isTimeSlot,
+    steps: (message) => {
+      const picked = message.trim().toLowerCase();
+      const slot =
+        MOCK_TIME_SLOTS.find((slot) => slot.toLowerCase() === picked) ??
+        message.trim();
+      return [
+        ...streamedText(
+          `Thank you! Your appointment request for ${slot} has been submitted. Our team will email you a calendar invite shortly. 🎉`,
+        ),
+        {
+          kind: "line",
+          data: {
+            type: "booking_confirmed",
+            booking: { slot, reference: "FZ-MOCK-1024" },
+          },
+        },
+        final,
+      ];
+    },
+  },
+  {
+    // Old backends only say so in the text.
+    name: "legacy-booking-confirmed",
+    trigger: /legacy confirm/,
+    steps: [
+      ...streamedText(
+        "Done! Your appointment request has been submitted for Tuesday 11:00 AM.",
+      ),
+      final,
+    ],
+  },
+  {
+    name: "time-slots",
+    trigger: /book|appointment|consult/,
+    steps: [
+      ...streamedText(
+        "I'd be happy to set up a consultation with our team. Here are the next available times:",
+      ),
+      { kind: "line", data: { type: "time_slots", slots: MOCK_TIME_SLOTS } },
+      final,
+    ],
+  },
+  {
+    name: "legacy-time-slots",
+    trigger: /legacy slots/,
+    steps: [
+      ...streamedText(
+        `Here are the times I can offer: TIME_SLOTS_DISPLAY:[${MOCK_TIME_SLOTS.map((slot) => `'${slot}'`).join(", ")}]`,
+        40,
+      ),
+      final,
+    ],
+  },
+  {
+    name: "backend-error-line",
+    trigger: /error line/,
+    steps: [
+      {
+        kind: "line",
+        data: { error: "Mock backend failed to generate a reply." },
+      },
+      ...streamedText("Sorry, something went wrong on my side."),
+      final,
+    ],
+  },
+  {
+    name: "malformed-line",
+    trigger: /malformed/,
+    steps: [
+      ...streamedText("Some lines in this reply are broken,"),
+      { kind: "raw", text: '{"response_chunk": "unterminated\n' },
+      ...streamedText(
+        "Some lines in this reply are broken, but the rest arrives fine.",
+      ),
+      final,
+    ],
+  },
+  {
+    name: "disconnect",
+    trigger: /disconnect/,
+    steps: [
+      ...streamedText("This reply will be cut off before it"),
+      { kind: "disconnect" },
+    ],
+  },
+  {
+    // The backend closes the stream without sending a single line.
+    name: "empty-stream",
+    trigger: /empty reply/,
+    steps: [],
+  },
+  {
+    // Closed cleanly part-way through, without the `is_final` line.
+    name: "ends-early",
+    trigger: /ends early/,
+    steps: streamedText("This reply stops here without saying it is"),
+  },
+  { name: "server-error", trigger: /server error/, status: 500, steps: [] },
+  { name: "rate-limited", trigger: /rate limit/, status: 429, steps: [] },
+  { name: "unreachable", trigger: /unreachable/, unreachable: true, steps: [] },
+  { name: "timeout", trigger: /timeout/, hang: true, steps: [] },
+  {
+    name: "markdown",
+    trigger: /markdown|services/,
+    steps: [
+      ...streamedText(
+        [
+          "## What we do",
+          "",
+          "Fuzionest builds **custom software** for growing teams:",
+          "",
+          "- Web and mobile apps",
+          "- AI assistants like me",
+          "- Cloud *migrations*",
+          "",
+          "Try `npm run dev:mock` or read [our blog](/blog).",
+          "",
+          '<img src="x" onerror="alert(1)"> <script>alert(1)</script>',
+        ].join("\n"),
+      ),
+      final,
+    ],
+  },
+  {
+    name: "default",
+    trigger: /.*/,
+    steps: [
+      ...streamedText(
+        "Response: Thanks for your message! 👋 I'm the mock Fuzzy backend. Ask about our services, book an appointment, or try one of the test phrases (error line, malformed, disconnect, empty reply, ends early, server error, rate limit, unreachable, timeout, legacy slots, legacy confirm).",
+      ),
+      final,
+    ],
+  },
+];
+
+export function findScenario(message: string) {
+  const normalized = message.trim().toLowerCase();
+  return (
+    MOCK_SCENARIOS.find((scenario) => scenario.trigger.test(normalized)) ??
+    MOCK_SCENARIOS[MOCK_SCENARIOS.length - 1]
+  );
+}
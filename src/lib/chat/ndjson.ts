@@ -0,0 +1,58 @@
+/**
+ * Accumulates decoded text and hands back complete lines only, so a JSON
+ * object split across two network reads is parsed once it is whole.
+ */
+export class NdjsonLineBuffer {
+  private pending = "";
+
+  push(text: string): string[] {
+    this.pending += text;
+    const lines = this.pending.split("\n");
+    this.pending = lines.pop() ?? "";
+    return lines.filter((line) => line.trim());
+  }
+
+  flush(): string[] {
+    const rest = this.pending;
+    this.pending = "";
+    return rest.trim() ? [rest] : [];
+  }
+}
+
+export async function* readNdjson<T>(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  const buffer = new NdjsonLineBuffer();
+
+  const parse = (line: string): T | undefined => {
+    try {
+      return JSON.parse(line) as T;
+    } catch (e) {
+      console.error("Failed to parse NDJSON line:", line, e);
+      return undefined;
+    }
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      for (const line of buffer.push(decoder.decode(value, { stream: true }))) {
+        const parsed = parse(line);
+        if (parsed !== undefined) yield parsed;
+      }
+    }
+
+    for (const line of buffer.push(decoder.decode()).concat(buffer.flush())) {
+      const parsed = parse(line);
+      if (parsed !== undefined) yield parsed;
+    }
+  } finally {
+    // Runs when the consumer breaks out early too, so the request is dropped.
+    reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,47 @@
+import { ChatClientError } from "./client";
+
+export const MAX_RETRIES = 3;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+/**
+ * Exponential backoff with equal jitter: half the delay is fixed and half
+ * random, so attempt 0 waits 250–500ms, attempt 1 500ms–1s, and so on up to
+ * 4–8s.
+ */
+export function backoffDelay(attempt: number) {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+/**
+ * Network failures and server errors are worth retrying; other HTTP errors
+ * will fail the same way again. A 429 that says how long to wait is left to
+ * the user rather than retried inside the window.
+ */
+export function isRetryableError(error: unknown) {
+  if (!(error instanceof ChatClientError)) return false;
+  if (error.kind === "network") return true;
+  if (error.kind !== "http" || error.status === undefined) return false;
+  if (error.status === 429) return error.retryAfter === undefined;
+  return error.status >= 500;
+}
+
+export function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,118 @@
+import {
+  type ChatApiErrorBody,
+  type ChatApiErrorCode,
+} from "@/interfaces/chat";
+import { DEFAULT_LOCALE, isLocale } from "@/lib/i18n/config";
+import { createRateLimiter } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/request-ip";
+import { isMockBackendEnabled, mockBackendFetch } from "./mock/backend";
+
+// Server-only: never prefix with NEXT_PUBLIC_, the browser talks to /api/chat.
+const CHAT_BACKEND_URL = process.env.CHAT_BACKEND_URL || "http://127.0.0.1:5000";
+
+const ipLimiter = createRateLimiter({ limit: 30, windowMs: 60_000 });
+const sessionLimiter = createRateLimiter({ limit: 20, windowMs: 60_000 });
+
+type RateLimitScope = "chat" | "common-questions";
+
+export function chatErrorResponse(
+  code: ChatApiErrorCode,
+  message: string,
+  status: number,
+  retryAfter?: number,
+) {
+  const body: ChatApiErrorBody = { error: { code, message, retryAfter } };
+  return Response.json(body, {
+    status,
+    headers: retryAfter ? { "Retry-After": String(retryAfter) } : undefined,
+  });
+}
+
+/**
+ * Applies the per-IP and, when a session id is present, per-session limits.
+ * Each scope has its own per-IP budget, so loading suggested questions
+ * doesn't use up chat messages. Returns an error response to send back, or
+ * null if the request may go on.
+ */
+export function checkRateLimit(
+  request: Request,
+  scope: RateLimitScope,
+  sessionId?: string | null,
+) {
+  const byIp = ipLimiter.check(`${scope}:${getClientIp(request)}`);
+  const bySession = sessionId
+    ? sessionLimiter.check(sessionId)
+    : ({ allowed: true } as const);
+
+  const blocked = !byIp.allowed ? byIp : !bySession.allowed ? bySession : null;
+  if (!blocked) return null;
+
+  return chatErrorResponse(
+    "rate_limited",
+    "You're sending messages too quickly. Please wait a moment and try again.",
+    429,
+    blocked.retryAfter,
+  );
+}
+
+/**
+ * The visitor's locale as sent by the widget, or the default one when it is
+ * missing or not one we serve. The backend gets it in the request body and
+ * as `Accept-Language`.
+ */
+export function readChatLocale(value: unknown) {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * Calls the chat backend (or the fixture-driven mock when
+ * `CHAT_BACKEND_MOCK=1`), turning connection failures and non-2xx answers
+ * into typed error responses.
+ */
+export async function fetchBackend(
+  path: string,
+  init: RequestInit = {},
+): Promise<{ response: Response } | { error: Response }> {
+  let response: Response;
+  try {
+    response = isMockBackendEnabled()
+      ? await mockBackendFetch(path, init)
+      : await fetch(`${CHAT_BACKEND_URL}${path}`, {
+          ...init,
+          cache: "no-store",
+        });
+  } catch (e) {
+    if (init.signal?.aborted) throw e;
+    console.error(`Chat backend request to ${path} failed:`, e);
+    return {
+      error: chatErrorResponse(
+        "backend_unavailable",
+        "The assistant is unavailable right now. Please try again shortly.",
+        502,
+      ),
+    };
+  }
+
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get("Retry-After")) || 30;
+    return {
+      error: chatErrorResponse(
+        "rate_limited",
+        "The assistant is busy right now. Please wait a moment and try again.",
+        429,
+        retryAfter,
+      ),
+    };
+  }
+  if (!response.ok) {
+    console.error(`Chat backend ${path} answered ${response.status}`);
+    return {
+      error: chatErrorResponse(
+        "backend_error",
+        "The assistant ran into a problem answering that. Please try again.",
+        response.status >= 500 ? 502 : response.status,
+      ),
+    };
+  }
+  return { response };
+}
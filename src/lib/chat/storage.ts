@@ -0,0 +1,112 @@
+import { type ChatMessage } from "@/interfaces/chat";
+
+const ACTIVE_SESSION_KEY = "fuzzy-chat:active-session";
+const SESSION_KEY_PREFIX = "fuzzy-chat:session:";
+
+// Conversations older than this are dropped instead of restored.
+export const CONVERSATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type StoredConversation = {
+  sessionId: string;
+  messages: ChatMessage[];
+  isBookingConfirmed: boolean;
+  bookingAttempted: boolean;
+  expiresAt: number;
+};
+
+function getStorage(): Storage | null {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    // Access throws when storage is disabled (e.g. some private modes).
+    return null;
+  }
+}
+
+function sessionKey(sessionId: string) {
+  return `${SESSION_KEY_PREFIX}${sessionId}`;
+}
+
+function readConversation(storage: Storage, key: string) {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as StoredConversation) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Removes every stored conversation that has expired or can't be parsed.
+ */
+export function pruneConversations(now = Date.now()) {
+  const storage = getStorage();
+  if (!storage) return;
+
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key?.startsWith(SESSION_KEY_PREFIX)) keys.push(key);
+  }
+  for (const key of keys) {
+    const conversation = readConversation(storage, key);
+    if (!conversation || conversation.expiresAt <= now) {
+      storage.removeItem(key);
+    }
+  }
+}
+
+/**
+ * Returns the conversation the user last had open in this browser, or null
+ * if there is none or it has expired.
+ */
+export function loadActiveConversation(): StoredConversation | null {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  pruneConversations();
+  const sessionId = storage.getItem(ACTIVE_SESSION_KEY);
+  if (!sessionId) return null;
+
+  const conversation = readConversation(storage, sessionKey(sessionId));
+  if (!conversation) {
+    storage.removeItem(ACTIVE_SESSION_KEY);
+    return null;
+  }
+  // A message still sending when the page was closed never got its reply.
+  return {
+    ...conversation,
+    messages: conversation.messages.map((message) =>
+      message.status === "sending" ? { ...message, status: "failed" } : message,
+    ),
+  };
+}
+
+export function saveConversation(
+  conversation: Omit<StoredConversation, "expiresAt">,
+  ttl = CONVERSATION_TTL_MS,
+) {
+  const storage = getStorage();
+  if (!storage) return;
+
+  const stored: StoredConversation = {
+    ...conversation,
+    expiresAt: Date.now() + ttl,
+  };
+  try {
+    storage.setItem(sessionKey(conversation.sessionId), JSON.stringify(stored));
+    storage.setItem(ACTIVE_SESSION_KEY, conversation.sessionId);
+  } catch (e) {
+    console.error("Failed to save chat conversation:", e);
+  }
+}
+
+export function clearConversation(sessionId: string) {
+  const storage = getStorage();
+  if (!storage) return;
+
+  storage.removeItem(sessionKey(sessionId));
+  if (storage.getItem(ACTIVE_SESSION_KEY) === sessionId) {
+    storage.removeItem(ACTIVE_SESSION_KEY);
+  }
+}
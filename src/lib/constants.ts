@@ -1,4 +1,34 @@
-export const EXAMPLE_PATH = "blog-starter";
-export const CMS_NAME = "Markdown";
-export const HOME_OG_IMAGE_URL =
-  "https://og-image.vercel.app/Next.js%20Blog%20Starter%20Example.png?theme=light&md=1&fontSize=100px&images=https%3A%2F%2Fassets.vercel.com%2Fimage%2Fupload%2Ffront%2Fassets%2Fdesign%2Fnextjs-black-logo.svg";
+export const SITE_NAME = "Fuzionest";
+export const SITE_DESCRIPTION = "Your partner in innovative solutions.";
+export const SITE_URL =
+  process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+
+export const BLOG_TITLE = "Blog";
+export const BLOG_DESCRIPTION = `Ideas, guides and news from the ${SITE_NAME} team.`;
+
+export const FEED_PATHS = {
+  rss: "/feed.xml",
+  atom: "/atom.xml",
+  json: "/feed.json",
+};
+
+// Posts per page on /blog and /blog/page/<n>; the first page leads with a hero
+export const POSTS_PER_PAGE = 7;
+
+export const SEARCH_INDEX_PATH = "/search-index.json";
+
+// Labels are looked up under `nav` in the message catalogs
+export const NAV_ITEMS = [
+  { href: "/", key: "home" },
+  { href: "/about", key: "about" },
+  { href: "/careers", key: "careers" },
+  { href: "/blog", key: "blog" },
+  { href: "/contact", key: "contact" },
+] as const;
+
+// Shown above blog pages when set, e.g. { text: "...", href: "/contact", linkLabel: "Talk to us" }
+export const ANNOUNCEMENT: {
+  text: string;
+  href: string;
+  linkLabel: string;
+} | null = null;
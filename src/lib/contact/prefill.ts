@@ -0,0 +1,34 @@
+import { type ContactFormValues } from "@/interfaces/contact";
+import { CONTACT_TOPICS } from "./schema";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function first(value: string | string[] | undefined) {
+  return (Array.isArray(value) ? value[0] : value) ?? "";
+}
+
+/**
+ * Link to the contact form with some fields filled in, e.g. from the
+ * chatbot or a job posting.
+ */
+export function contactFormHref(prefill: Partial<ContactFormValues>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(prefill)) {
+    if (value) params.set(key, value);
+  }
+  const query = params.toString();
+  return query ? `/contact?${query}` : "/contact";
+}
+
+export function readContactPrefill(
+  searchParams: SearchParams,
+): Partial<ContactFormValues> {
+  const topic = first(searchParams.topic);
+  return {
+    name: first(searchParams.name).slice(0, 100),
+    email: first(searchParams.email).slice(0, 200),
+    company: first(searchParams.company).slice(0, 100),
+    message: first(searchParams.message).slice(0, 5000),
+    topic: CONTACT_TOPICS.find((value) => value === topic),
+  };
+}
@@ -0,0 +1,69 @@
+import {
+  type ContactFieldErrorCode,
+  type ContactFieldErrors,
+  type ContactFormValues,
+  type ContactTopic,
+} from "@/interfaces/contact";
+import { z } from "zod";
+
+export const CONTACT_TOPICS: [ContactTopic, ...ContactTopic[]] = [
+  "general",
+  "services",
+  "booking",
+  "careers",
+  "support",
+];
+
+const FIELD_ERROR_CODES = new Set<string>([
+  "required",
+  "invalid",
+  "too_short",
+  "too_long",
+]);
+
+// Issue messages are error codes; the form looks up the text to show in the
+// message catalogs, so it comes out in the visitor's language.
+export const contactSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "required")
+    .max(100, "too_long"),
+  email: z
+    .string()
+    .trim()
+    .min(1, "required")
+    .email("invalid"),
+  company: z
+    .string()
+    .trim()
+    .max(100, "too_long")
+    .default(""),
+  topic: z.enum(CONTACT_TOPICS, {
+    errorMap: () => ({ message: "invalid" }),
+  }),
+  message: z
+    .string()
+    .trim()
+    .min(10, "too_short")
+    .max(5000, "too_long"),
+});
+
+export function validateContact(
+  input: unknown,
+):
+  | { success: true; data: ContactFormValues }
+  | { success: false; fieldErrors: ContactFieldErrors } {
+  const result = contactSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const fieldErrors: ContactFieldErrors = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof ContactFormValues;
+    // Zod's own messages (e.g. a number where a string belongs) are "invalid".
+    fieldErrors[field] ??= FIELD_ERROR_CODES.has(issue.message)
+      ? (issue.message as ContactFieldErrorCode)
+      : "invalid";
+  }
+  return { success: false, fieldErrors };
+}
@@ -0,0 +1,59 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { z } from "zod";
+
+// Forms sent faster than a person could fill them in are treated as bots.
+export const MIN_FILL_TIME_MS = 3000;
+// Tokens older than this are refused, so one can't be reused forever.
+const MAX_TOKEN_AGE_MS = 24 * 60 * 60_000;
+
+// Instances behind a load balancer must share CONTACT_FORM_SECRET; without it
+// each process signs with its own key, which is fine for a single server. The
+// key is kept on globalThis because the page and the route handler are
+// bundled separately and would otherwise each generate one.
+const globalKey = globalThis as { contactFormSecret?: string };
+const SECRET = (globalKey.contactFormSecret ??=
+  process.env.CONTACT_FORM_SECRET || randomBytes(32).toString("hex"));
+
+/**
+ * Fields that are not part of the submission: `website` is a honeypot that
+ * people never see, `formToken` is issued with the page by `issueFormToken`.
+ */
+export const contactSpamSchema = z.object({
+  website: z.string().optional(),
+  formToken: z.string().optional(),
+});
+
+function sign(issuedAt: string) {
+  return createHmac("sha256", SECRET).update(issuedAt).digest("base64url");
+}
+
+/**
+ * Signed timestamp rendered into the contact form, so the time it took to
+ * fill in is measured from a clock the visitor can't set.
+ */
+export function issueFormToken(now = Date.now()) {
+  const issuedAt = String(now);
+  return `${issuedAt}.${sign(issuedAt)}`;
+}
+
+// When a token was issued, or null if it wasn't issued by this server.
+function readFormToken(token: string) {
+  const [issuedAt, signature = ""] = token.split(".");
+  const a = Buffer.from(signature);
+  const b = Buffer.from(sign(issuedAt));
+  if (a.length !== b.length || !timingSafeEqual(a, b)) return null;
+  return Number(issuedAt);
+}
+
+export function isLikelySpam(input: unknown, now = Date.now()) {
+  const parsed = contactSpamSchema.safeParse(input);
+  if (!parsed.success) return true;
+
+  const { website, formToken } = parsed.data;
+  if (website || !formToken) return true;
+
+  const issuedAt = readFormToken(formToken);
+  if (issuedAt === null) return true;
+  const elapsed = now - issuedAt;
+  return elapsed < MIN_FILL_TIME_MS || elapsed > MAX_TOKEN_AGE_MS;
+}
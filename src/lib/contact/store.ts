@@ -0,0 +1,66 @@
+import { type ContactSubmission } from "@/interfaces/contact";
+import { promises as fs } from "fs";
+import { dirname, join } from "path";
+
+export interface SubmissionStore {
+  save(submission: ContactSubmission): Promise<void>;
+}
+
+/**
+ * Appends each submission as one JSON line. Works without any service
+ * running, which makes it the default for local and offline setups.
+ */
+export function createFileSubmissionStore(path: string): SubmissionStore {
+  return {
+    async save(submission) {
+      await fs.mkdir(dirname(path), { recursive: true });
+      await fs.appendFile(path, `${JSON.stringify(submission)}\n`, "utf8");
+    },
+  };
+}
+
+export function createMemorySubmissionStore(
+  submissions: ContactSubmission[] = [],
+): SubmissionStore {
+  return {
+    async save(submission) {
+      submissions.push(submission);
+    },
+  };
+}
+
+const DEFAULT_FILE_PATH = join(
+  process.cwd(),
+  ".data",
+  "contact-submissions.jsonl",
+);
+
+let store: SubmissionStore | null = null;
+
+/**
+ * The store chosen by `CONTACT_STORE` (`file`, the default, or `memory`).
+ * Call `setSubmissionStore` to plug in another backend, e.g. a CRM client.
+ */
+export function getSubmissionStore(): SubmissionStore {
+  if (store) return store;
+
+  switch (process.env.CONTACT_STORE) {
+    case "memory":
+      store = createMemorySubmissionStore();
+      break;
+    case "file":
+    case undefined:
+    case "":
+      store = createFileSubmissionStore(
+        process.env.CONTACT_STORE_PATH || DEFAULT_FILE_PATH,
+      );
+      break;
+    default:
+      throw new Error(`Unknown CONTACT_STORE "${process.env.CONTACT_STORE}"`);
+  }
+  return store;
+}
+
+export function setSubmissionStore(next: SubmissionStore) {
+  store = next;
+}
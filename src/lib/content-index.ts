@@ -0,0 +1,281 @@
+import { Author } from "@/interfaces/author";
+import { Post } from "@/interfaces/post";
+import { authorsDirectory, getAuthorById } from "@/lib/authors";
+import { createFileCache, directorySignature } from "@/lib/file-cache";
+import { DEFAULT_LOCALE, isLocale, Locale } from "@/lib/i18n/config";
+import {
+  ContentIssue,
+  ContentValidationError,
+  PostFrontmatter,
+  PostTranslation,
+  parsePostFrontmatter,
+  parsePostTranslation,
+} from "@/lib/post-schema";
+import { slugify } from "@/lib/taxonomy";
+import fs from "fs";
+import matter from "gray-matter";
+import { basename, join } from "path";
+
+export const postsDirectory = join(process.cwd(), "_posts");
+
+const WORDS_PER_MINUTE = 200;
+
+// Words of prose, ignoring markdown syntax, link targets and HTML tags.
+function countWords(markdown: string) {
+  const text = markdown
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ");
+  return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu)?.length ?? 0;
+}
+
+function readingTime(wordCount: number) {
+  return Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE));
+}
+
+// `hello-world.fr.md` is the French translation of `hello-world.md`.
+function postFileName(path: string): { slug: string; locale: Locale } {
+  const name = basename(path, ".md");
+  const dot = name.lastIndexOf(".");
+  const suffix = name.slice(dot + 1);
+  return dot > 0 && isLocale(suffix) && suffix !== DEFAULT_LOCALE
+    ? { slug: name.slice(0, dot), locale: suffix }
+    : { slug: name, locale: DEFAULT_LOCALE };
+}
+
+type ParsedPost =
+  | {
+      frontmatter: PostFrontmatter;
+      content: string;
+      wordCount: number;
+    }
+  | {
+      translation: PostTranslation;
+      content: string;
+      wordCount: number;
+    }
+  | { issues: ContentIssue[] };
+
+const postFiles = createFileCache((contents, path): ParsedPost => {
+  const { data, content } = matter(contents);
+  const file = `_posts/${basename(path)}`;
+  const wordCount = countWords(content);
+  try {
+    if (postFileName(path).locale !== DEFAULT_LOCALE) {
+      return {
+        translation: parsePostTranslation(data, file),
+        content,
+        wordCount,
+      };
+    }
+    return {
+      frontmatter: parsePostFrontmatter(data, file),
+      content,
+      wordCount,
+    };
+  } catch (error) {
+    if (error instanceof ContentValidationError) {
+      return { issues: error.issues };
+    }
+    throw error;
+  }
+});
+
+export type ContentIndex = {
+  // Newest first, drafts included
+  posts: Post[];
+  issues: ContentIssue[];
+  bySlug: Map<string, Post>;
+  issuesBySlug: Map<string, ContentIssue[]>;
+  // Keyed by slugified tag
+  byTag: Map<string, Post[]>;
+  byAuthor: Map<string, Post[]>;
+  // Translated posts by locale, then slug
+  translations: Map<Locale, Map<string, Post>>;
+};
+
+function toPost(slug: string, parsed: ParsedPost): Post | ContentIssue[] {
+  if ("issues" in parsed) return parsed.issues;
+  if ("translation" in parsed) {
+    throw new Error(`_posts/${slug}.md was parsed as a translation`);
+  }
+
+  const { frontmatter, content, wordCount } = parsed;
+  // Fails the build rather than publishing a post without its author
+  let author: Author | null;
+  try {
+    author = getAuthorById(frontmatter.author);
+  } catch (error) {
+    if (!(error instanceof ContentValidationError)) throw error;
+    // The author's own file lists the details
+    return [
+      {
+        file: `_posts/${slug}.md`,
+        field: "author",
+        message: `_authors/${frontmatter.author}.md has invalid front matter`,
+      },
+    ];
+  }
+  if (!author) {
+    return [
+      {
+        file: `_posts/${slug}.md`,
+        field: "author",
+        message: `unknown author "${frontmatter.author}", add _authors/${frontmatter.author}.md or fix the id`,
+      },
+    ];
+  }
+
+  return {
+    ...frontmatter,
+    slug,
+    author,
+    content,
+    wordCount,
+    readingTime: readingTime(wordCount),
+    locale: DEFAULT_LOCALE,
+    translations: [],
+  };
+}
+
+// The original with the translation's front matter and body laid over it
+function translatePost(
+  post: Post,
+  locale: Locale,
+  parsed: ParsedPost,
+): Post | ContentIssue[] {
+  if ("issues" in parsed) return parsed.issues;
+  if (!("translation" in parsed)) {
+    throw new Error(`The ${locale} translation of ${post.slug} is not one`);
+  }
+
+  return {
+    ...post,
+    ...parsed.translation,
+    content: parsed.content,
+    wordCount: parsed.wordCount,
+    readingTime: readingTime(parsed.wordCount),
+    locale,
+  };
+}
+
+function addTo<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const values = map.get(key);
+  if (values) values.push(value);
+  else map.set(key, [value]);
+}
+
+function buildIndex(): ContentIndex {
+  const files = fs
+    .readdirSync(postsDirectory)
+    .filter((file) => file.endsWith(".md"));
+  const paths = files.map((file) => join(postsDirectory, file));
+  postFiles.retain(paths);
+
+  const index: ContentIndex = {
+    posts: [],
+    issues: [],
+    bySlug: new Map(),
+    issuesBySlug: new Map(),
+    byTag: new Map(),
+    byAuthor: new Map(),
+    translations: new Map(),
+  };
+  const addIssues = (slug: string, issues: ContentIssue[]) => {
+    index.issues.push(...issues);
+    index.issuesBySlug.set(slug, [
+      ...(index.issuesBySlug.get(slug) ?? []),
+      ...issues,
+    ]);
+  };
+
+  const translationPaths: string[] = [];
+  for (const path of paths) {
+    const { slug, locale } = postFileName(path);
+    if (locale !== DEFAULT_LOCALE) {
+      translationPaths.push(path);
+      continue;
+    }
+    const post = toPost(slug, postFiles.read(path));
+    if (Array.isArray(post)) addIssues(slug, post);
+    else index.posts.push(post);
+  }
+
+  // sort posts by date in descending order
+  index.posts.sort((post1, post2) => (post1.date > post2.date ? -1 : 1));
+  for (const post of index.posts) {
+    index.bySlug.set(post.slug, post);
+    addTo(index.byAuthor, post.author.id, post);
+    for (const tag of post.tags) addTo(index.byTag, slugify(tag), post);
+  }
+
+  for (const path of translationPaths) {
+    const { slug, locale } = postFileName(path);
+    const post = index.bySlug.get(slug);
+    if (!post) {
+      // An invalid original is reported already
+      if (index.issuesBySlug.has(slug)) continue;
+      addIssues(slug, [
+        {
+          file: `_posts/${basename(path)}`,
+          field: "(file)",
+          message: `translates _posts/${slug}.md, which does not exist`,
+        },
+      ]);
+      continue;
+    }
+    const translated = translatePost(post, locale, postFiles.read(path));
+    if (Array.isArray(translated)) {
+      addIssues(slug, translated);
+      continue;
+    }
+    // Shared with every translation, which copied the array reference
+    post.translations.push(locale);
+    let posts = index.translations.get(locale);
+    if (!posts) index.translations.set(locale, (posts = new Map()));
+    posts.set(slug, translated);
+  }
+  return index;
+}
+
+// Content only changes while developing; a production server (or build)
+// keeps the first index it makes.
+const WATCH_CONTENT = process.env.NODE_ENV === "development";
+// Pages look posts up many times per render, so even in development the
+// folders are checked for changes at most this often.
+const CHECK_INTERVAL_MS = 1000;
+
+let cached: {
+  signature: string;
+  checkedAt: number;
+  index: ContentIndex;
+} | null = null;
+
+function contentSignature() {
+  return [postsDirectory, authorsDirectory]
+    .map((directory) => directorySignature(directory))
+    .join("#");
+}
+
+/**
+ * Posts parsed once and kept for the life of the process. Under `next dev`
+ * the index is rebuilt when a file in `_posts` or `_authors` changes, and
+ * only the changed files are parsed again.
+ */
+export function getContentIndex(): ContentIndex {
+  const now = Date.now();
+  if (
+    cached &&
+    (!WATCH_CONTENT || now - cached.checkedAt < CHECK_INTERVAL_MS)
+  ) {
+    return cached.index;
+  }
+
+  const signature = contentSignature();
+  if (cached?.signature !== signature) {
+    cached = { signature, checkedAt: now, index: buildIndex() };
+  } else {
+    cached.checkedAt = now;
+  }
+  return cached.index;
+}
@@ -0,0 +1,186 @@
+import { Post } from "@/interfaces/post";
+import { getAllPosts } from "@/lib/api";
+import {
+  BLOG_DESCRIPTION,
+  BLOG_TITLE,
+  FEED_PATHS,
+  SITE_NAME,
+} from "@/lib/constants";
+import { cachedMarkdownToHtml } from "@/lib/markdown-cache";
+import { absoluteUrl } from "@/lib/url";
+
+const FEED_TITLE = `${BLOG_TITLE} | ${SITE_NAME}`;
+
+type FeedItem = Post & {
+  url: string;
+  html: string;
+  imageUrl: string | null;
+};
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function cdata(value: string) {
+  return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function imageType(url: string) {
+  const extension = url.split("?")[0].split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "png":
+      return "image/png";
+    case "gif":
+      return "image/gif";
+    case "webp":
+      return "image/webp";
+    case "svg":
+      return "image/svg+xml";
+    default:
+      return "image/jpeg";
+  }
+}
+
+// Feed readers show content out of context, so site-relative links break.
+function absolutizeLinks(html: string) {
+  return html.replace(
+    /(\s(?:src|href)=")(\/[^/"][^"]*|\/)"/g,
+    (_, attribute: string, path: string) =>
+      `${attribute}${absoluteUrl(path)}"`,
+  );
+}
+
+async function getFeedItems(): Promise<FeedItem[]> {
+  return Promise.all(
+    getAllPosts().map(async (post) => ({
+      ...post,
+      url: absoluteUrl(`/posts/${post.slug}`),
+      html: absolutizeLinks(await cachedMarkdownToHtml(post.content || "")),
+      imageUrl: post.coverImage ? absoluteUrl(post.coverImage) : null,
+    })),
+  );
+}
+
+/**
+ * RSS 2.0, see https://www.rssboard.org/rss-specification
+ */
+export async function buildRssFeed() {
+  const items = await getFeedItems();
+
+  const entries = items.map(
+    (item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.url)}</guid>
+      <pubDate>${new Date(item.date).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(item.author.name)}</dc:creator>
+      <description>${escapeXml(item.excerpt ?? "")}</description>
+      <content:encoded>${cdata(item.html)}</content:encoded>${
+        item.imageUrl
+          ? `
+      <media:content url="${escapeXml(item.imageUrl)}" medium="image" type="${imageType(item.imageUrl)}" />`
+          : ""
+      }
+    </item>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>${escapeXml(FEED_TITLE)}</title>
+    <link>${escapeXml(absoluteUrl("/blog"))}</link>
+    <description>${escapeXml(BLOG_DESCRIPTION)}</description>
+    <language>en</language>
+    <atom:link href="${escapeXml(absoluteUrl(FEED_PATHS.rss))}" rel="self" type="application/rss+xml" />${
+      items[0]
+        ? `
+    <lastBuildDate>${new Date(items[0].date).toUTCString()}</lastBuildDate>`
+        : ""
+    }
+${entries.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Atom 1.0, see https://www.rfc-editor.org/rfc/rfc4287
+ */
+export async function buildAtomFeed() {
+  const items = await getFeedItems();
+  const updated = items[0]
+    ? new Date(items[0].date).toISOString()
+    : new Date(0).toISOString();
+
+  const entries = items.map(
+    (item) => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />
+    <id>${escapeXml(item.url)}</id>
+    <published>${new Date(item.date).toISOString()}</published>
+    <updated>${new Date(item.date).toISOString()}</updated>
+    <author>
+      <name>${escapeXml(item.author.name)}</name>
+      <uri>${escapeXml(absoluteUrl(`/authors/${item.author.id}`))}</uri>
+    </author>
+    <summary>${escapeXml(item.excerpt ?? "")}</summary>
+    <content type="html">${escapeXml(item.html)}</content>${
+      item.imageUrl
+        ? `
+    <link rel="enclosure" type="${imageType(item.imageUrl)}" href="${escapeXml(item.imageUrl)}" />`
+        : ""
+    }
+  </entry>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(FEED_TITLE)}</title>
+  <subtitle>${escapeXml(BLOG_DESCRIPTION)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(absoluteUrl("/blog"))}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(absoluteUrl(FEED_PATHS.atom))}" />
+  <id>${escapeXml(absoluteUrl("/blog"))}</id>
+  <updated>${updated}</updated>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+/**
+ * JSON Feed 1.1, see https://www.jsonfeed.org/version/1.1/
+ */
+export async function buildJsonFeed() {
+  const items = await getFeedItems();
+
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: FEED_TITLE,
+    description: BLOG_DESCRIPTION,
+    home_page_url: absoluteUrl("/blog"),
+    feed_url: absoluteUrl(FEED_PATHS.json),
+    language: "en",
+    items: items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.excerpt,
+      content_html: item.html,
+      image: item.imageUrl ?? undefined,
+      date_published: new Date(item.date).toISOString(),
+      authors: [
+        {
+          name: item.author.name,
+          url: absoluteUrl(`/authors/${item.author.id}`),
+          avatar: item.author.picture
+            ? absoluteUrl(item.author.picture)
+            : undefined,
+        },
+      ],
+    })),
+  };
+}
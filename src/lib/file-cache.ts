@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import { join } from "path";
+
+type Entry<T> = {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  value: T;
+};
+
+export function hashContent(contents: string) {
+  return createHash("sha1").update(contents).digest("hex");
+}
+
+/**
+ * Parses files once and hands back the same result until they change. A
+ * file whose mtime and size are unchanged isn't read again; one that was
+ * touched but has the same contents isn't parsed again.
+ */
+export function createFileCache<T>(
+  parse: (contents: string, path: string) => T,
+) {
+  const entries = new Map<string, Entry<T>>();
+
+  return {
+    read(path: string): T {
+      const { mtimeMs, size } = fs.statSync(path);
+      const cached = entries.get(path);
+      if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+        return cached.value;
+      }
+
+      const contents = fs.readFileSync(path, "utf8");
+      const hash = hashContent(contents);
+      const value =
+        cached && cached.hash === hash ? cached.value : parse(contents, path);
+      entries.set(path, { mtimeMs, size, hash, value });
+      return value;
+    },
+
+    // Forget files that no longer exist
+    retain(paths: string[]) {
+      const keep = new Set(paths);
+      for (const path of entries.keys()) {
+        if (!keep.has(path)) entries.delete(path);
+      }
+    },
+  };
+}
+
+/**
+ * Changes whenever a matching file in `directory` is added, removed or
+ * modified; cheap enough to check on every request.
+ */
+export function directorySignature(directory: string, extension = ".md") {
+  return fs
+    .readdirSync(directory)
+    .filter((file) => file.endsWith(extension))
+    .sort()
+    .map((file) => {
+      const { mtimeMs, size } = fs.statSync(join(directory, file));
+      return `${file}:${mtimeMs}:${size}`;
+    })
+    .join("|");
+}
@@ -0,0 +1,62 @@
+export const LOCALES = ["en", "fr"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+// Served without a prefix: /about is English, /fr/about French.
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Each language's own name, for the language switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  fr: "Français",
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// The `[locale]` route param as a Locale; generateStaticParams only
+// produces known ones, so the fallback is for stray calls.
+export function resolveLocale(value: string): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * Path of a page in the given locale, e.g. `/blog` → `/fr/blog`. External
+ * URLs, hashes and paths that already carry a locale are returned as they are.
+ */
+export function localizePath(path: string, locale: Locale) {
+  if (!path.startsWith("/") || path.startsWith("//")) return path;
+  if (isLocale(path.split(/[/?#]/)[1])) return path;
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
+
+/**
+ * Splits a pathname into its locale and the path without the prefix, so
+ * `/fr/blog` gives `{ locale: "fr", path: "/blog" }`.
+ */
+export function splitLocalePath(pathname: string): {
+  locale: Locale;
+  path: string;
+} {
+  const [, first, ...rest] = pathname.split("/");
+  if (!isLocale(first)) return { locale: DEFAULT_LOCALE, path: pathname };
+  return { locale: first, path: `/${rest.join("/")}` };
+}
+
+/**
+ * `alternates` metadata for a page that exists in every locale: the
+ * canonical URL in the current one and an hreflang link per language.
+ */
+export function localeAlternates(path: string, locale: Locale) {
+  return {
+    canonical: localizePath(path, locale),
+    languages: {
+      ...Object.fromEntries(
+        LOCALES.map((other) => [other, localizePath(path, other)]),
+      ),
+      "x-default": path,
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { type Locale } from "./config";
+
+type Values = Record<string, string | number>;
+
+export type PluralMessage = { one: string; other: string };
+
+/**
+ * Fills `{name}` placeholders in a catalog string. Unknown placeholders are
+ * left in place so a typo shows up on the page instead of vanishing.
+ */
+export function formatMessage(message: string, values: Values = {}) {
+  return message.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match,
+  );
+}
+
+export function formatNumber(value: number, locale: Locale) {
+  return value.toLocaleString(locale);
+}
+
+/**
+ * Picks the `one` or `other` form for `count` by the locale's plural rules;
+ * `{count}` is filled in with the number formatted for the locale.
+ */
+export function formatPlural(
+  message: PluralMessage,
+  count: number,
+  locale: Locale,
+  values: Values = {},
+) {
+  const form = new Intl.PluralRules(locale).select(count);
+  return formatMessage(form === "one" ? message.one : message.other, {
+    count: formatNumber(count, locale),
+    ...values,
+  });
+}
+
+// "March 16, 2020" in English, "16 mars 2020" in French. In UTC, so the
+// server and the browser agree on the day.
+export function formatDate(date: string | Date, locale: Locale) {
+  return new Date(date).toLocaleDateString(locale, {
+    dateStyle: "long",
+    timeZone: "UTC",
+  });
+}
+
+export function formatTime(date: Date, locale: Locale) {
+  return date.toLocaleTimeString(locale, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Name of a month (1–12) on its own, as used in the archive headings
+export function formatMonth(month: number, locale: Locale) {
+  return new Date(Date.UTC(2000, month - 1, 1)).toLocaleString(locale, {
+    month: "long",
+    timeZone: "UTC",
+  });
+}
@@ -0,0 +1,257 @@
+import {
+  type ContactFieldErrorCode,
+  type ContactFormValues,
+} from "@/interfaces/contact";
+import {
+  BLOG_DESCRIPTION,
+  BLOG_TITLE,
+  SITE_DESCRIPTION,
+  SITE_NAME,
+} from "@/lib/constants";
+
+// Per field, the text for each error code the contact API can return.
+export type ContactFieldMessages = Record<
+  keyof ContactFormValues,
+  Partial<Record<ContactFieldErrorCode, string>>
+>;
+
+const contactFieldErrors: ContactFieldMessages = {
+  name: {
+    required: "Please tell us your name.",
+    too_long: "Name must be 100 characters or fewer.",
+  },
+  email: {
+    required: "Please enter your email address.",
+    invalid: "Please enter a valid email address.",
+  },
+  company: {
+    too_long: "Company must be 100 characters or fewer.",
+  },
+  topic: {
+    invalid: "Please choose a topic.",
+  },
+  message: {
+    too_short: "Please write at least 10 characters.",
+    too_long: "Message must be 5000 characters or fewer.",
+  },
+};
+
+/**
+ * UI strings for English, the default locale. Other catalogs are typed
+ * against this one, so a missing key fails the type check. `{name}`
+ * placeholders are filled in by `formatMessage`; `one`/`other` pairs are
+ * picked by `formatPlural`.
+ */
+export const en = {
+  nav: {
+    home: "Home",
+    about: "About",
+    careers: "Careers",
+    blog: "Blog",
+    contact: "Contact",
+  },
+  header: {
+    main: "Main",
+    mobile: "Mobile",
+    menu: "Menu",
+    mainMenu: "Main menu",
+    openMenu: "Open menu",
+    closeMenu: "Close menu",
+    language: "Language",
+  },
+  footer: {
+    label: "Footer",
+  },
+  site: {
+    description: SITE_DESCRIPTION,
+  },
+  home: {
+    title: `Welcome to ${SITE_NAME}`,
+    description: SITE_DESCRIPTION,
+  },
+  about: {
+    title: "About",
+    heading: `About ${SITE_NAME}`,
+    description: `${SITE_NAME} is a team dedicated to excellence.`,
+    lead: "We are a team dedicated to excellence.",
+  },
+  careers: {
+    title: "Careers",
+    heading: "Join Our Team",
+    description: `Explore exciting career opportunities at ${SITE_NAME}.`,
+    lead: "Explore exciting career opportunities with us.",
+    jobTitle: "{title} — Careers",
+    allRoles: "← All open roles",
+    posted: "Posted",
+    closed:
+      "This position has been filled and is no longer accepting applications.",
+    apply: "Apply for this role",
+    applyMessage: "I'd like to apply for the {title} role.",
+    team: "Team",
+    allTeams: "All teams",
+    location: "Location",
+    allLocations: "All locations",
+    noMatches: "No open roles match these filters right now.",
+    ogAlt: `Open role at ${SITE_NAME}`,
+    ogEyebrow: `${SITE_NAME} Careers · {team}`,
+    employmentTypes: {
+      "full-time": "Full-time",
+      "part-time": "Part-time",
+      contract: "Contract",
+      internship: "Internship",
+    },
+  },
+  contact: {
+    title: "Contact",
+    heading: "Get in Touch",
+    description: `Get in touch with the ${SITE_NAME} team.`,
+    lead: "We'd love to hear from you!",
+    name: "Name",
+    email: "Email",
+    company: "Company",
+    optional: "(optional)",
+    topic: "Topic",
+    message: "Message",
+    send: "Send message",
+    sending: "Sending…",
+    networkError:
+      "We couldn't reach the server. Please check your connection and try again.",
+    errors: {
+      invalid: "Please fix the highlighted fields.",
+      spam: "We couldn't send your message. Please try again.",
+      rate_limited: "Too many messages. Please try again in a few minutes.",
+      server_error: "Something went wrong on our side. Please try again later.",
+    },
+    fieldErrors: contactFieldErrors,
+    thanks: "Thanks, {name}!",
+    sent: "Your message is on its way. We'll reply to {email} within two business days.",
+    topics: {
+      general: "General question",
+      services: "Our services",
+      booking: "Book a consultation",
+      careers: "Careers",
+      support: "Support",
+    },
+  },
+  blog: {
+    title: BLOG_TITLE,
+    description: BLOG_DESCRIPTION,
+    moreStories: "More Stories",
+    relatedPosts: "Related Posts",
+    archiveLink: "Browse the archive by month",
+    archive: "Archive",
+    archiveTitle: `${BLOG_TITLE} archive`,
+    archiveDescription: "Every post, grouped by year and month.",
+    pageHeading: "Page {page} of {totalPages}",
+    pageTitle: `${BLOG_TITLE}, page {page}`,
+    pages: "Blog pages",
+    newerPosts: "← Newer posts",
+    olderPosts: "Older posts →",
+    morePosts: "More posts",
+    previousPost: "← Previous post",
+    nextPost: "Next post →",
+    onThisPage: "On this page",
+    headingLink: "Link to {heading}",
+    footnotes: "Footnotes",
+    footnoteBackLink: "Back to reference {reference}",
+    readingTime: "{minutes} min read",
+    words: { one: "{count} word", other: "{count} words" },
+    coverAlt: "Cover Image for {title}",
+    untranslated: "This post isn't available in English yet.",
+    ogAlt: `${SITE_NAME} ${BLOG_TITLE} post`,
+    ogEyebrow: `${SITE_NAME} ${BLOG_TITLE}`,
+  },
+  taxonomy: {
+    tags: "Tags",
+    tagsDescription: "Browse blog posts by topic.",
+    browseByTag: "Browse by tag",
+    taggedTitle: "Posts tagged #{tag}",
+    taggedDescription: {
+      one: "{count} post tagged #{tag}.",
+      other: "{count} posts tagged #{tag}.",
+    },
+    categoryDescription: {
+      one: "{count} post in {category}.",
+      other: "{count} posts in {category}.",
+    },
+  },
+  authors: {
+    postsBy: "Posts by {name}",
+    descriptionWithRole: "{name}, {role}. Posts and profile.",
+    social: {
+      website: "Website",
+      github: "GitHub",
+      twitter: "X (Twitter)",
+      linkedin: "LinkedIn",
+    },
+  },
+  preview: {
+    notice: "This page is a preview.",
+    exitLink: "Click here",
+    exitSuffix: "to exit preview mode.",
+  },
+  search: {
+    label: "Search posts",
+    placeholder: "Search posts…",
+    loading: "Loading search…",
+    unavailable: "Search is unavailable right now. Please try again later.",
+    noResults: "No posts match “{query}”.",
+    results: "Search results",
+  },
+  chat: {
+    title: "Fuzzy AI Assistant",
+    open: "Open chat",
+    close: "Close chat",
+    clear: "Clear chat",
+    contactTeam: "Contact the team",
+    online: "Online • Ready to help",
+    offline: "Offline • Messages will send on reconnect",
+    welcome: `Hello! I'm **Fuzzy**, your friendly AI assistant from **${SITE_NAME}**. 👋\nI'm here to help you:\n- Learn about our innovative services\n- Book consultations with our expert team\n\nHow can I assist you today?`,
+    commonQuestions: [
+      `What services does ${SITE_NAME} offer?`,
+      "Tell me about the company's mission.",
+      "How can I contact the support team?",
+      "I'd like to book an appointment",
+    ],
+    quickSuggestions: "Quick suggestions:",
+    placeholder: "Ask me anything...",
+    stop: "Stop generating",
+    stopped: "Response stopped",
+    retry: "Retry",
+    edit: "Edit",
+    regenerate: "Regenerate",
+    editing: "Editing your last message",
+    cancelEditing: "Cancel",
+    reconnecting: "Connection lost. Retrying ({count}/{max})…",
+    chooseSlot: "Choose a preferred time slot:",
+    typeSlot: "Or type your preferred time manually.",
+    bookingConfirmed: "Booking confirmed",
+    bookingReference: "Reference: {reference}",
+    status: {
+      queued: "Queued",
+      sending: "Sending…",
+      sent: "Sent",
+      failed: "Failed",
+    },
+    errors: {
+      rateLimited: "⏳ **Slow Down**",
+      failed: "⚠️ **Something Went Wrong**",
+      connection:
+        "🔌 **Connection Issue**\nI'm having trouble connecting. Please check your internet and try again.",
+      // The reply stream closed before its final line
+      incomplete: "The reply was cut off before it finished. Please try again.",
+      // Text for the codes in typed error responses from the /api routes
+      codes: {
+        bad_request: "That message couldn't be sent. Please try again.",
+        rate_limited:
+          "You're sending messages too quickly. Please wait a moment and try again.",
+        backend_unavailable:
+          "The assistant is unavailable right now. Please try again shortly.",
+        backend_error:
+          "The assistant ran into a problem answering that. Please try again.",
+      },
+    },
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,235 @@
+import { SITE_NAME } from "@/lib/constants";
+import { type Messages } from "./en";
+
+export const fr: Messages = {
+  nav: {
+    home: "Accueil",
+    about: "À propos",
+    careers: "Carrières",
+    blog: "Blog",
+    contact: "Contact",
+  },
+  header: {
+    main: "Principale",
+    mobile: "Mobile",
+    menu: "Menu",
+    mainMenu: "Menu principal",
+    openMenu: "Ouvrir le menu",
+    closeMenu: "Fermer le menu",
+    language: "Langue",
+  },
+  footer: {
+    label: "Pied de page",
+  },
+  site: {
+    description: "Votre partenaire pour des solutions innovantes.",
+  },
+  home: {
+    title: `Bienvenue chez ${SITE_NAME}`,
+    description: "Votre partenaire pour des solutions innovantes.",
+  },
+  about: {
+    title: "À propos",
+    heading: `À propos de ${SITE_NAME}`,
+    description: `${SITE_NAME} est une équipe qui vise l'excellence.`,
+    lead: "Nous sommes une équipe qui vise l'excellence.",
+  },
+  careers: {
+    title: "Carrières",
+    heading: "Rejoignez notre équipe",
+    description: `Découvrez les opportunités de carrière chez ${SITE_NAME}.`,
+    lead: "Découvrez les opportunités de carrière à nos côtés.",
+    jobTitle: "{title} — Carrières",
+    allRoles: "← Tous les postes ouverts",
+    posted: "Publiée le",
+    closed: "Ce poste a été pourvu et n'accepte plus de candidatures.",
+    apply: "Postuler à cette offre",
+    applyMessage: "Je souhaite postuler au poste de {title}.",
+    team: "Équipe",
+    allTeams: "Toutes les équipes",
+    location: "Lieu",
+    allLocations: "Tous les lieux",
+    noMatches: "Aucun poste ne correspond à ces filtres pour le moment.",
+    ogAlt: `Poste ouvert chez ${SITE_NAME}`,
+    ogEyebrow: `${SITE_NAME} Carrières · {team}`,
+    employmentTypes: {
+      "full-time": "Temps plein",
+      "part-time": "Temps partiel",
+      contract: "Contrat",
+      internship: "Stage",
+    },
+  },
+  contact: {
+    title: "Contact",
+    heading: "Contactez-nous",
+    description: `Prenez contact avec l'équipe ${SITE_NAME}.`,
+    lead: "Nous serions ravis d'avoir de vos nouvelles !",
+    name: "Nom",
+    email: "E-mail",
+    company: "Entreprise",
+    optional: "(facultatif)",
+    topic: "Sujet",
+    message: "Message",
+    send: "Envoyer le message",
+    sending: "Envoi…",
+    networkError:
+      "Impossible de joindre le serveur. Vérifiez votre connexion et réessayez.",
+    errors: {
+      invalid: "Veuillez corriger les champs signalés.",
+      spam: "Votre message n'a pas pu être envoyé. Veuillez réessayer.",
+      rate_limited:
+        "Trop de messages. Veuillez réessayer dans quelques minutes.",
+      server_error:
+        "Un problème est survenu de notre côté. Veuillez réessayer plus tard.",
+    },
+    fieldErrors: {
+      name: {
+        required: "Veuillez indiquer votre nom.",
+        too_long: "Le nom ne doit pas dépasser 100 caractères.",
+      },
+      email: {
+        required: "Veuillez saisir votre adresse e-mail.",
+        invalid: "Veuillez saisir une adresse e-mail valide.",
+      },
+      company: {
+        too_long:
+          "Le nom de l'entreprise ne doit pas dépasser 100 caractères.",
+      },
+      topic: {
+        invalid: "Veuillez choisir un sujet.",
+      },
+      message: {
+        too_short: "Veuillez écrire au moins 10 caractères.",
+        too_long: "Le message ne doit pas dépasser 5000 caractères.",
+      },
+    },
+    thanks: "Merci, {name} !",
+    sent: "Votre message est en route. Nous répondrons à {email} sous deux jours ouvrés.",
+    topics: {
+      general: "Question générale",
+      services: "Nos services",
+      booking: "Réserver une consultation",
+      careers: "Carrières",
+      support: "Assistance",
+    },
+  },
+  blog: {
+    title: "Blog",
+    description: `Idées, guides et actualités de l'équipe ${SITE_NAME}.`,
+    moreStories: "Autres articles",
+    relatedPosts: "Articles similaires",
+    archiveLink: "Parcourir les archives par mois",
+    archive: "Archives",
+    archiveTitle: "Archives du blog",
+    archiveDescription: "Tous les articles, classés par année et par mois.",
+    pageHeading: "Page {page} sur {totalPages}",
+    pageTitle: "Blog, page {page}",
+    pages: "Pages du blog",
+    newerPosts: "← Articles plus récents",
+    olderPosts: "Articles plus anciens →",
+    morePosts: "Autres articles",
+    previousPost: "← Article précédent",
+    nextPost: "Article suivant →",
+    onThisPage: "Sur cette page",
+    headingLink: "Lien vers la section {heading}",
+    footnotes: "Notes de bas de page",
+    footnoteBackLink: "Retour à l'appel de note {reference}",
+    readingTime: "{minutes} min de lecture",
+    words: { one: "{count} mot", other: "{count} mots" },
+    coverAlt: "Image de couverture pour {title}",
+    untranslated: "Cet article n'est pas encore disponible en français.",
+    ogAlt: `Article du blog ${SITE_NAME}`,
+    ogEyebrow: `Blog ${SITE_NAME}`,
+  },
+  taxonomy: {
+    tags: "Étiquettes",
+    tagsDescription: "Parcourir les articles par sujet.",
+    browseByTag: "Parcourir par étiquette",
+    taggedTitle: "Articles étiquetés #{tag}",
+    taggedDescription: {
+      one: "{count} article étiqueté #{tag}.",
+      other: "{count} articles étiquetés #{tag}.",
+    },
+    categoryDescription: {
+      one: "{count} article dans {category}.",
+      other: "{count} articles dans {category}.",
+    },
+  },
+  authors: {
+    postsBy: "Articles de {name}",
+    descriptionWithRole: "{name}, {role}. Articles et profil.",
+    social: {
+      website: "Site web",
+      github: "GitHub",
+      twitter: "X (Twitter)",
+      linkedin: "LinkedIn",
+    },
+  },
+  preview: {
+    notice: "Cette page est un aperçu.",
+    exitLink: "Cliquez ici",
+    exitSuffix: "pour quitter le mode aperçu.",
+  },
+  search: {
+    label: "Rechercher des articles",
+    placeholder: "Rechercher des articles…",
+    loading: "Chargement de la recherche…",
+    unavailable:
+      "La recherche est indisponible pour le moment. Réessayez plus tard.",
+    noResults: "Aucun article ne correspond à « {query} ».",
+    results: "Résultats de recherche",
+  },
+  chat: {
+    title: "Fuzzy, assistant IA",
+    open: "Ouvrir le chat",
+    close: "Fermer le chat",
+    clear: "Effacer la conversation",
+    contactTeam: "Contacter l'équipe",
+    online: "En ligne • Prêt à vous aider",
+    offline: "Hors ligne • Les messages partiront à la reconnexion",
+    welcome: `Bonjour ! Je suis **Fuzzy**, l'assistant IA de **${SITE_NAME}**. 👋\nJe peux vous aider à :\n- Découvrir nos services innovants\n- Réserver une consultation avec nos experts\n\nComment puis-je vous aider aujourd'hui ?`,
+    commonQuestions: [
+      `Quels services propose ${SITE_NAME} ?`,
+      "Quelle est la mission de l'entreprise ?",
+      "Comment contacter l'équipe d'assistance ?",
+      "Je voudrais prendre rendez-vous",
+    ],
+    quickSuggestions: "Suggestions :",
+    placeholder: "Posez-moi une question…",
+    stop: "Arrêter la génération",
+    stopped: "Réponse interrompue",
+    retry: "Réessayer",
+    edit: "Modifier",
+    regenerate: "Régénérer",
+    editing: "Modification de votre dernier message",
+    cancelEditing: "Annuler",
+    reconnecting: "Connexion perdue. Nouvelle tentative ({count}/{max})…",
+    chooseSlot: "Choisissez un créneau :",
+    typeSlot: "Ou indiquez l'horaire qui vous convient.",
+    bookingConfirmed: "Réservation confirmée",
+    bookingReference: "Référence : {reference}",
+    status: {
+      queued: "En attente",
+      sending: "Envoi…",
+      sent: "Envoyé",
+      failed: "Échec",
+    },
+    errors: {
+      rateLimited: "⏳ **Un instant**",
+      failed: "⚠️ **Une erreur est survenue**",
+      connection:
+        "🔌 **Problème de connexion**\nJe n'arrive pas à me connecter. Vérifiez votre connexion internet et réessayez.",
+      incomplete:
+        "La réponse s'est interrompue avant la fin. Veuillez réessayer.",
+      codes: {
+        bad_request: "Ce message n'a pas pu être envoyé. Veuillez réessayer.",
+        rate_limited:
+          "Vous envoyez des messages trop rapidement. Patientez un instant avant de réessayer.",
+        backend_unavailable:
+          "L'assistant est indisponible pour le moment. Réessayez dans quelques instants.",
+        backend_error:
+          "L'assistant a rencontré un problème pour répondre. Veuillez réessayer.",
+      },
+    },
+  },
+};
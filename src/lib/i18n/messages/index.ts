@@ -0,0 +1,11 @@
+import { type Locale } from "../config";
+import { en, type Messages } from "./en";
+import { fr } from "./fr";
+
+export type { Messages };
+
+const CATALOGS: Record<Locale, Messages> = { en, fr };
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale];
+}
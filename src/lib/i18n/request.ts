@@ -0,0 +1,25 @@
+import { cache } from "react";
+import { DEFAULT_LOCALE, resolveLocale, type Locale } from "./config";
+import { getMessages } from "./messages";
+
+// One slot per server render, shared by every component in the tree.
+const requestLocale = cache(() => ({ current: DEFAULT_LOCALE as Locale }));
+
+/**
+ * Records the locale from the `[locale]` segment for the rest of this
+ * render. Layouts and pages call it first thing, because server components
+ * can't read route params or React context.
+ */
+export function setRequestLocale(param: string): Locale {
+  const locale = resolveLocale(param);
+  requestLocale().current = locale;
+  return locale;
+}
+
+export function getRequestLocale(): Locale {
+  return requestLocale().current;
+}
+
+export function getRequestMessages() {
+  return getMessages(getRequestLocale());
+}
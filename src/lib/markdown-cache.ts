@@ -0,0 +1,114 @@
+import { getAllAuthors } from "@/lib/authors";
+import { getAllJobs } from "@/lib/careers";
+import { getContentIndex } from "@/lib/content-index";
+import { hashContent } from "@/lib/file-cache";
+import markdownToHtml from "@/lib/markdownToHtml";
+import fs from "fs/promises";
+import { join } from "path";
+
+// Bump when the markdown pipeline changes so stale HTML isn't reused.
+const CACHE_VERSION = 2;
+
+// Next keeps `.next/cache` between builds, locally and on most hosts.
+const cacheDirectory = join(process.cwd(), ".next", "cache", "markdown");
+
+const memory = new Map<string, Promise<unknown>>();
+let pruned = false;
+
+function cacheHash(markdown: string) {
+  return hashContent(`${CACHE_VERSION}\n${markdown}`);
+}
+
+async function readDiskCache<T>(key: string): Promise<T | undefined> {
+  try {
+    const file = join(cacheDirectory, `${key}.json`);
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeDiskCache(key: string, value: unknown) {
+  try {
+    await fs.mkdir(cacheDirectory, { recursive: true });
+    const file = join(cacheDirectory, `${key}.json`);
+    await fs.writeFile(file, JSON.stringify(value));
+  } catch (error) {
+    // A read-only filesystem only costs us the cache
+    console.warn("Could not write the markdown cache:", error);
+  }
+}
+
+// Every piece of markdown the site renders today
+function liveSources() {
+  const index = getContentIndex();
+  const translations = [...index.translations.values()].flatMap((posts) => [
+    ...posts.values(),
+  ]);
+  return [
+    ...[...index.posts, ...translations].map((post) => post.content || ""),
+    ...getAllJobs().map((job) => job.content || ""),
+    ...getAllAuthors().map((author) => author.bio),
+  ];
+}
+
+/**
+ * Deletes stored renders of markdown that no post, job or author has any
+ * more, so the cache doesn't grow with every edit.
+ */
+async function pruneDiskCache() {
+  let files: string[];
+  try {
+    files = await fs.readdir(cacheDirectory);
+  } catch {
+    return;
+  }
+  const live = new Set(liveSources().map(cacheHash));
+  // Files are named `<namespace>-<hash>.json`
+  const stale = files.filter((file) => {
+    const hash = file.slice(file.lastIndexOf("-") + 1, -".json".length);
+    return !live.has(hash);
+  });
+  await Promise.all(
+    stale.map((file) => fs.rm(join(cacheDirectory, file), { force: true })),
+  );
+}
+
+/**
+ * Renders `markdown` once per distinct source: results are kept in memory
+ * for the life of the process and on disk across builds.
+ */
+export function cachedRender<T>(
+  namespace: string,
+  markdown: string,
+  render: (markdown: string) => Promise<T>,
+): Promise<T> {
+  const key = `${namespace}-${cacheHash(markdown)}`;
+
+  // Once per process, alongside the first render
+  if (!pruned) {
+    pruned = true;
+    pruneDiskCache().catch((error) =>
+      console.warn("Could not prune the markdown cache:", error),
+    );
+  }
+
+  let result = memory.get(key) as Promise<T> | undefined;
+  if (!result) {
+    result = (async () => {
+      const stored = await readDiskCache<T>(key);
+      if (stored !== undefined) return stored;
+      const rendered = await render(markdown);
+      await writeDiskCache(key, rendered);
+      return rendered;
+    })();
+    // Don't keep failures around
+    result.catch(() => memory.delete(key));
+    memory.set(key, result);
+  }
+  return result;
+}
+
+export function cachedMarkdownToHtml(markdown: string) {
+  return cachedRender("html", markdown, (source) => markdownToHtml(source));
+}
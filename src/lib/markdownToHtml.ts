@@ -1,7 +1,151 @@
-import { remark } from "remark";
-import html from "remark-html";
+import type { Element, Root } from "hast";
+import { defaultSchema, type Schema } from "hast-util-sanitize";
+import rehypeExternalLinks from "rehype-external-links";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeStringify from "rehype-stringify";
+import breaks from "remark-breaks";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import remarkRehype, {
+  type Options as RemarkRehypeOptions,
+} from "remark-rehype";
+import { unified } from "unified";
+import { visit } from "unist-util-visit";
+import { SITE_URL } from "./constants";
 
-export default async function markdownToHtml(markdown: string) {
-  const result = await remark().use(html).process(markdown);
+/**
+ * Elements and attributes allowed in rendered markdown. Shared by blog posts
+ * and chat messages so both render the same way; anything else (raw HTML,
+ * inline handlers, `javascript:` links) is stripped.
+ */
+export const markdownSchema: Schema = {
+  ...defaultSchema,
+  // Raw HTML never reaches the tree, so the only ids are the footnote ones
+  // remark-rehype already prefixes with `user-content-`.
+  clobber: [],
+  tagNames: [
+    "a",
+    "blockquote",
+    "br",
+    "code",
+    "del",
+    "em",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "hr",
+    "img",
+    "input",
+    "li",
+    "ol",
+    "p",
+    "pre",
+    "section",
+    "strong",
+    "sup",
+    "table",
+    "tbody",
+    "td",
+    "th",
+    "thead",
+    "tr",
+    "ul",
+  ],
+  attributes: {
+    a: [
+      "href",
+      "title",
+      "id",
+      "ariaDescribedBy",
+      "ariaLabel",
+      "dataFootnoteRef",
+      "dataFootnoteBackref",
+      ["className", "data-footnote-backref"],
+    ],
+    code: [["className", /^language-./]],
+    h2: ["id", ["className", "sr-only"]],
+    img: ["src", "alt", "title"],
+    input: [["type", "checkbox"], ["disabled", true], "checked"],
+    li: ["id", ["className", "task-list-item"]],
+    ol: ["start", ["className", "contains-task-list"]],
+    section: ["dataFootnotes", ["className", "footnotes"]],
+    td: ["align"],
+    th: ["align"],
+    ul: [["className", "contains-task-list"]],
+  },
+  protocols: {
+    href: ["http", "https", "mailto", "tel"],
+    src: ["http", "https"],
+  },
+};
+
+const siteHost = new URL(SITE_URL).host;
+
+function isExternalLink(element: Element) {
+  const href = element.properties.href;
+  if (typeof href !== "string" || !/^https?:\/\//i.test(href)) return false;
+  try {
+    return new URL(href).host !== siteHost;
+  } catch {
+    return false;
+  }
+}
+
+function rehypeLazyImages() {
+  return (tree: Root) => {
+    visit(tree, "element", (node) => {
+      if (node.tagName === "img") {
+        node.properties.loading = "lazy";
+        node.properties.decoding = "async";
+      }
+    });
+  };
+}
+
+type Options = {
+  // Treat single newlines as line breaks, as chat messages expect.
+  breaks?: boolean;
+} & Pick<RemarkRehypeOptions, "footnoteLabel" | "footnoteBackLabel">;
+
+/**
+ * Markdown to a sanitized HTML tree: GFM, links to other sites open in a new
+ * tab without an opener, and images load lazily. Callers add their own
+ * rehype plugins and a stringifier.
+ */
+export function createProcessor({
+  breaks: withBreaks = false,
+  footnoteLabel,
+  footnoteBackLabel,
+}: Options = {}) {
+  const processor = unified().use(remarkParse).use(remarkGfm);
+  if (withBreaks) processor.use(breaks);
+  return processor
+    .use(remarkRehype, { footnoteLabel, footnoteBackLabel })
+    .use(rehypeSanitize, markdownSchema)
+    .use(rehypeExternalLinks, {
+      target: "_blank",
+      rel: ["noopener", "noreferrer"],
+      test: isExternalLink,
+    })
+    .use(rehypeLazyImages);
+}
+
+export default async function markdownToHtml(
+  markdown: string,
+  options?: Options,
+) {
+  const result = await createProcessor(options)
+    .use(rehypeStringify)
+    .process(markdown);
   return result.toString();
 }
+
+export function markdownToHtmlSync(markdown: string, options?: Options) {
+  return createProcessor(options)
+    .use(rehypeStringify)
+    .processSync(markdown)
+    .toString();
+}
@@ -0,0 +1,179 @@
+import { type Author } from "@/interfaces/author";
+import { SITE_NAME, SITE_URL } from "@/lib/constants";
+import { DEFAULT_LOCALE, Locale, localizePath } from "@/lib/i18n/config";
+import { formatDate } from "@/lib/i18n/format";
+import fs from "fs/promises";
+import { ImageResponse } from "next/og";
+import { extname, join } from "path";
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+export const OG_IMAGE_CONTENT_TYPE = "image/png";
+
+/**
+ * Open Graph image entry for the card a page serves from its `og` route.
+ * The URL is localized like any other link, so English cards have no `/en`
+ * prefix for the middleware to redirect.
+ */
+export function ogImage(path: string, locale: Locale, alt: string) {
+  return {
+    url: localizePath(path === "/" ? "/og" : `${path}/og`, locale),
+    alt,
+    type: OG_IMAGE_CONTENT_TYPE,
+    ...OG_IMAGE_SIZE,
+  };
+}
+
+/**
+ * `openGraph` metadata for a page that has its own card. Next replaces the
+ * layout's `openGraph` rather than merging it, so its fields are repeated.
+ */
+export function pageOpenGraph(path: string, locale: Locale, alt: string) {
+  return {
+    type: "website" as const,
+    siteName: SITE_NAME,
+    locale,
+    images: [ogImage(path, locale, alt)],
+  };
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+};
+
+/**
+ * Satori can't fetch our own site while it is being built, so images from
+ * `public/` are inlined as data URLs. Remote URLs are used as they are.
+ */
+async function imageSource(src: string) {
+  if (/^https?:\/\//.test(src)) return src;
+  const file = await fs.readFile(join(process.cwd(), "public", src));
+  const type = MIME_TYPES[extname(src).toLowerCase()] ?? "image/png";
+  return `data:${type};base64,${file.toString("base64")}`;
+}
+
+type CardProps = {
+  title: string;
+  description?: string;
+  // Small label above the title, the site name by default
+  eyebrow?: string;
+  author?: Pick<Author, "name" | "picture">;
+  date?: string;
+  // Language the date is written in
+  locale?: Locale;
+  coverImage?: string;
+};
+
+/**
+ * The branded 1200×630 card used for link previews: title and description
+ * on the left, optional cover on the right, byline at the bottom.
+ */
+export async function renderOgCard({
+  title,
+  description,
+  eyebrow = SITE_NAME,
+  author,
+  date,
+  locale = DEFAULT_LOCALE,
+  coverImage,
+}: CardProps) {
+  const [cover, avatar] = await Promise.all([
+    coverImage ? imageSource(coverImage) : undefined,
+    author ? imageSource(author.picture) : undefined,
+  ]);
+  const byline = [author?.name, date && formatDate(date, locale)]
+    .filter(Boolean)
+    .join(" · ");
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: "flex",
+          width: "100%",
+          height: "100%",
+          padding: 64,
+          gap: 48,
+          background: "linear-gradient(135deg, #0f172a 0%, #312e81 100%)",
+          color: "white",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            flex: 1,
+            flexDirection: "column",
+            justifyContent: "space-between",
+          }}
+        >
+          <div style={{ fontSize: 28, color: "#a5b4fc", fontWeight: 700 }}>
+            {eyebrow}
+          </div>
+          <div style={{ display: "flex", flexDirection: "column", gap: 24 }}>
+            <div
+              style={{
+                fontSize: title.length > 60 ? 52 : 64,
+                fontWeight: 700,
+                lineHeight: 1.1,
+              }}
+            >
+              {title}
+            </div>
+            {description && (
+              <div style={{ fontSize: 28, color: "#cbd5e1", lineHeight: 1.4 }}>
+                {description}
+              </div>
+            )}
+          </div>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 20,
+              fontSize: 26,
+              color: "#e2e8f0",
+            }}
+          >
+            {avatar && (
+              <img
+                src={avatar}
+                width={64}
+                height={64}
+                style={{ borderRadius: 32 }}
+              />
+            )}
+            {byline || new URL(SITE_URL).host}
+          </div>
+        </div>
+        {cover && (
+          <img
+            src={cover}
+            width={440}
+            height={502}
+            style={{ objectFit: "cover", borderRadius: 24 }}
+          />
+        )}
+      </div>
+    ),
+    OG_IMAGE_SIZE,
+  );
+}
+
+/**
+ * A hand-picked `ogImage` from front matter, scaled to cover the card.
+ */
+export async function renderOgImageFile(src: string) {
+  return new ImageResponse(
+    (
+      <img
+        src={await imageSource(src)}
+        width={OG_IMAGE_SIZE.width}
+        height={OG_IMAGE_SIZE.height}
+        style={{ objectFit: "cover" }}
+      />
+    ),
+    OG_IMAGE_SIZE,
+  );
+}
@@ -0,0 +1,7 @@
+export function blogPageHref(page: number) {
+  return page <= 1 ? "/blog" : `/blog/page/${page}`;
+}
+
+export function pageCount(total: number, perPage: number) {
+  return Math.max(1, Math.ceil(total / perPage));
+}
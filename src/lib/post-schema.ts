@@ -0,0 +1,146 @@
+import { isValid, parseISO } from "date-fns";
+import { z } from "zod";
+import { slugify } from "@/lib/taxonomy";
+
+// Tags may be a YAML list or a comma-separated string.
+function parseTags(value: string | string[]) {
+  const tags = Array.isArray(value) ? value : value.split(",");
+  return Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean)));
+}
+
+export const optionalString = (field: string) =>
+  z.string({ invalid_type_error: `${field} must be a string` }).trim();
+
+export const requiredString = (field: string) =>
+  z
+    .string({
+      required_error: `${field} is required`,
+      invalid_type_error: `${field} must be a string`,
+    })
+    .trim()
+    .min(1, `${field} must not be empty`);
+
+// YAML turns unquoted dates into Date objects
+export const isoDate = (field: string) =>
+  z
+    .union([z.string(), z.date()], {
+      required_error: `${field} is required`,
+      invalid_type_error: `${field} must be an ISO 8601 date`,
+    })
+    .transform((value) =>
+      value instanceof Date ? value.toISOString() : value.trim(),
+    )
+    .refine((value) => isValid(parseISO(value)), {
+      message: `${field} must be an ISO 8601 date, e.g. 2024-05-01`,
+    });
+
+/**
+ * Front matter of a file in `_posts`. Optional fields get their defaults
+ * here, so the rest of the app never has to guess.
+ */
+export const postFrontmatterSchema = z.object({
+  title: requiredString("title"),
+  excerpt: optionalString("excerpt").default(""),
+  coverImage: requiredString("coverImage"),
+  date: isoDate("date"),
+  author: requiredString("author"),
+  ogImage: z.object({ url: requiredString("ogImage.url") }).optional(),
+  category: optionalString("category")
+    .optional()
+    .transform((value) => value || undefined)
+    .refine((value) => value === undefined || slugify(value) !== "", {
+      message: "category must contain a letter or digit",
+    }),
+  tags: z
+    .union([z.array(z.coerce.string()), z.string()], {
+      invalid_type_error: "tags must be a list or a comma-separated string",
+    })
+    .default([])
+    .transform(parseTags)
+    .refine((tags) => tags.every((tag) => slugify(tag) !== ""), {
+      message: "every tag must contain a letter or digit",
+    }),
+  draft: z
+    .boolean({ invalid_type_error: "draft must be true or false" })
+    .default(false),
+  preview: z
+    .boolean({ invalid_type_error: "preview must be true or false" })
+    .optional(),
+});
+
+export type PostFrontmatter = z.infer<typeof postFrontmatterSchema>;
+
+/**
+ * Front matter of a translation, `_posts/<slug>.<locale>.md`. The date,
+ * author, tags, category and draft state always come from the original, so
+ * a translation only sets what is read in its language; anything it leaves
+ * out is taken from the original too.
+ */
+export const postTranslationSchema = postFrontmatterSchema
+  .pick({ title: true, excerpt: true, coverImage: true, ogImage: true })
+  .partial();
+
+export type PostTranslation = z.infer<typeof postTranslationSchema>;
+
+export type ContentIssue = {
+  file: string;
+  field: string;
+  message: string;
+};
+
+export class ContentValidationError extends Error {
+  issues: ContentIssue[];
+
+  constructor(issues: ContentIssue[]) {
+    super(formatContentIssues(issues));
+    this.name = "ContentValidationError";
+    this.issues = issues;
+  }
+}
+
+export function formatContentIssues(issues: ContentIssue[]) {
+  const byFile = new Map<string, ContentIssue[]>();
+  for (const issue of issues) {
+    byFile.set(issue.file, [...(byFile.get(issue.file) ?? []), issue]);
+  }
+
+  const lines = [
+    `Invalid front matter in ${byFile.size} file${byFile.size === 1 ? "" : "s"}:`,
+  ];
+  for (const [file, fileIssues] of byFile) {
+    lines.push(`  ${file}`);
+    for (const { field, message } of fileIssues) {
+      lines.push(`    - ${field}: ${message}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Parses front matter with `schema`, throwing a ContentValidationError that
+ * names `file` and each field at fault.
+ */
+export function parseFrontmatter<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  file: string,
+): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  throw new ContentValidationError(
+    result.error.issues.map((issue) => ({
+      file,
+      field: issue.path.join(".") || "(front matter)",
+      message: issue.message,
+    })),
+  );
+}
+
+export function parsePostFrontmatter(data: unknown, file: string) {
+  return parseFrontmatter(postFrontmatterSchema, data, file);
+}
+
+export function parsePostTranslation(data: unknown, file: string) {
+  return parseFrontmatter(postTranslationSchema, data, file);
+}
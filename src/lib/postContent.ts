@@ -0,0 +1,109 @@
+import { TocEntry } from "@/interfaces/toc";
+import { type Locale } from "@/lib/i18n/config";
+import { formatMessage } from "@/lib/i18n/format";
+import { getMessages } from "@/lib/i18n/messages";
+import type { Root } from "hast";
+import { toString } from "hast-util-to-string";
+import rehypeAutolinkHeadings, {
+  type Options as AutolinkOptions,
+} from "rehype-autolink-headings";
+import rehypeHighlight from "rehype-highlight";
+import rehypeSlug from "rehype-slug";
+import rehypeStringify from "rehype-stringify";
+import type { VFile } from "vfile";
+import { cachedRender } from "./markdown-cache";
+import { createProcessor } from "./markdownToHtml";
+
+declare module "vfile" {
+  interface DataMap {
+    toc: TocEntry[];
+  }
+}
+
+// Runs after rehype-slug, so every heading already has its id.
+function rehypeToc() {
+  return (tree: Root, file: VFile) => {
+    const toc: TocEntry[] = [];
+    for (const node of tree.children) {
+      if (node.type !== "element") continue;
+      if (node.tagName !== "h2" && node.tagName !== "h3") continue;
+      const id = node.properties.id;
+      if (typeof id !== "string") continue;
+      toc.push({
+        id,
+        text: toString(node),
+        depth: node.tagName === "h2" ? 2 : 3,
+      });
+    }
+    file.data.toc = toc;
+  };
+}
+
+// The label is in the page's language, which may differ from the post's
+// when it hasn't been translated, so it carries its own `lang`.
+const autolinkOptions = (locale: Locale): AutolinkOptions => ({
+  behavior: "append",
+  properties: { className: ["heading-anchor"] },
+  content: (heading) => [
+    {
+      type: "element",
+      tagName: "span",
+      properties: { ariaHidden: "true" },
+      children: [{ type: "text", value: "#" }],
+    },
+    {
+      type: "element",
+      tagName: "span",
+      properties: { className: ["sr-only"], lang: locale },
+      children: [
+        {
+          type: "text",
+          value: formatMessage(getMessages(locale).blog.headingLink, {
+            heading: toString(heading),
+          }),
+        },
+      ],
+    },
+  ],
+});
+
+// remark-rehype's footnote heading and back-link labels, in the page's language
+function footnoteOptions(locale: Locale) {
+  const { blog } = getMessages(locale);
+  return {
+    footnoteLabel: blog.footnotes,
+    // "2-3" for the third reference to the second footnote, as by default
+    footnoteBackLabel: (referenceIndex: number, rereferenceIndex: number) => {
+      const again = rereferenceIndex > 1 ? `-${rereferenceIndex}` : "";
+      return formatMessage(blog.footnoteBackLink, {
+        reference: `${referenceIndex + 1}${again}`,
+      });
+    },
+  };
+}
+
+async function render(markdown: string, locale: Locale) {
+  const file = await createProcessor(footnoteOptions(locale))
+    .use(rehypeSlug)
+    .use(rehypeToc)
+    .use(rehypeAutolinkHeadings, autolinkOptions(locale))
+    .use(rehypeHighlight)
+    .use(rehypeStringify)
+    .process(markdown);
+
+  return {
+    html: file.toString(),
+    toc: file.data.toc ?? [],
+  };
+}
+
+/**
+ * Renders a post's markdown with linkable headings and highlighted code, and
+ * returns the table of contents alongside the HTML. `locale` is the language
+ * of the page, used for the headings' link labels and the footnote labels.
+ */
+export function renderPostContent(markdown: string, locale: Locale) {
+  return cachedRender(`post-${locale}`, markdown, (source) =>
+    render(source, locale),
+  );
+}
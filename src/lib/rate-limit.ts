@@ -0,0 +1,48 @@
+type Window = {
+  count: number;
+  resetAt: number;
+};
+
+type RateLimiterOptions = {
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfter: number };
+
+/**
+ * Fixed-window counter kept in process memory. Good enough for a single
+ * server instance; counts are not shared between instances or restarts.
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimiterOptions) {
+  const windows = new Map<string, Window>();
+
+  function sweep(now: number) {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  }
+
+  function check(key: string, now = Date.now()): RateLimitResult {
+    if (windows.size > 10_000) sweep(now);
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    if (window.count >= limit) {
+      return {
+        allowed: false,
+        retryAfter: Math.ceil((window.resetAt - now) / 1000),
+      };
+    }
+    window.count++;
+    return { allowed: true };
+  }
+
+  return { check };
+}
@@ -0,0 +1,50 @@
+// Proxies in front of the app that append to X-Forwarded-For, e.g. 1 behind
+// a single load balancer. Entries before the ones they add come from the
+// client and can't be trusted. Unset means 0, which production refuses (see
+// `assertProxyConfig`).
+const TRUSTED_PROXY_HOPS = process.env.TRUSTED_PROXY_HOPS;
+
+function trustedProxyHops() {
+  const hops = Number(TRUSTED_PROXY_HOPS || 0);
+  if (!Number.isInteger(hops) || hops < 0) {
+    throw new Error(
+      `TRUSTED_PROXY_HOPS must be a whole number, got "${TRUSTED_PROXY_HOPS}"`,
+    );
+  }
+  return hops;
+}
+
+/**
+ * Called when the server starts. Route handlers only see the connection
+ * address through X-Forwarded-For, which Next fills in only when the client
+ * hasn't sent one, so without a proxy every address is client-supplied.
+ * Production therefore needs `TRUSTED_PROXY_HOPS` set explicitly; `0` opts
+ * into a single rate-limit bucket shared by every visitor.
+ */
+export function assertProxyConfig() {
+  trustedProxyHops();
+  if (process.env.NODE_ENV === "production" && !TRUSTED_PROXY_HOPS) {
+    throw new Error(
+      "TRUSTED_PROXY_HOPS must be set in production: the number of proxies in front of the app, or 0 to rate limit all visitors together.",
+    );
+  }
+}
+
+/**
+ * The address the outermost trusted proxy saw the request come from: each
+ * proxy appends the address it received the request from, so that is the
+ * entry `TRUSTED_PROXY_HOPS` from the end. With no trusted proxies, or fewer
+ * entries than expected, nothing in the request can be trusted and every
+ * caller gets the same key.
+ */
+export function getClientIp(request: Request) {
+  const hops = trustedProxyHops();
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (hops > 0 && forwarded.length >= hops) {
+    return forwarded[forwarded.length - hops];
+  }
+  return "unknown";
+}
@@ -0,0 +1,43 @@
+import { SearchDocument } from "@/interfaces/search";
+import { getAllPosts } from "@/lib/api";
+import { LOCALES } from "@/lib/i18n/config";
+import type { Heading, Root } from "mdast";
+import { toString } from "mdast-util-to-string";
+import { remark } from "remark";
+
+function collectHeadings(tree: Root) {
+  return tree.children
+    .filter((node): node is Heading => node.type === "heading")
+    .map((heading) => toString(heading));
+}
+
+/**
+ * One plain-text document per post and language it is written in. Built once
+ * at build time and fetched by the search box, so searching needs no server.
+ */
+export function buildSearchIndex(): SearchDocument[] {
+  const processor = remark();
+
+  // Untranslated posts fall back to the original, which is already indexed
+  const posts = LOCALES.flatMap((locale) =>
+    getAllPosts(locale).filter((post) => post.locale === locale),
+  );
+
+  return posts.map((post) => {
+    const tree = processor.parse(post.content || "");
+    return {
+      slug: post.slug,
+      locale: post.locale,
+      title: post.title,
+      excerpt: post.excerpt ?? "",
+      headings: collectHeadings(tree),
+      body: tree.children
+        .map((node) => toString(node))
+        .filter(Boolean)
+        .join("\n")
+        .replace(/\s+/g, " ")
+        .trim(),
+      date: post.date,
+    };
+  });
+}
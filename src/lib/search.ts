@@ -0,0 +1,242 @@
+import {
+  SearchDocument,
+  SearchRange,
+  SearchResult,
+} from "@/interfaces/search";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n/config";
+
+type Field = "title" | "headings" | "excerpt" | "body";
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  title: 8,
+  headings: 4,
+  excerpt: 2,
+  body: 1,
+};
+
+const SNIPPET_RADIUS = 80;
+
+type Match = {
+  field: Field;
+  range: SearchRange;
+  score: number;
+};
+
+function fieldTexts(document: SearchDocument): [Field, string][] {
+  return [
+    ["title", document.title],
+    ...document.headings.map((h): [Field, string] => ["headings", h]),
+    ["excerpt", document.excerpt],
+    ["body", document.body],
+  ];
+}
+
+/**
+ * Edit distance between `a` and `b`, giving up once it exceeds `max`.
+ */
+function boundedLevenshtein(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Short terms must match exactly; longer ones tolerate typos.
+function allowedTypos(term: string) {
+  if (term.length < 4) return 0;
+  return term.length < 7 ? 1 : 2;
+}
+
+/**
+ * Best match of one query term in one piece of text: a substring scores
+ * highest (more at a word start), then a word within a few typos.
+ */
+function matchTerm(
+  term: string,
+  text: string,
+): Pick<Match, "range" | "score"> | null {
+  const lower = text.toLowerCase();
+
+  const index = lower.indexOf(term);
+  if (index !== -1) {
+    const atWordStart = index === 0 || /\W/.test(lower[index - 1]);
+    return {
+      range: [index, index + term.length],
+      score: atWordStart ? 3 : 2,
+    };
+  }
+
+  const typos = allowedTypos(term);
+  if (typos === 0) return null;
+
+  for (const word of lower.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const candidate = word[0].slice(0, term.length + typos);
+    if (boundedLevenshtein(term, candidate, typos) <= typos) {
+      const start = word.index ?? 0;
+      return { range: [start, start + word[0].length], score: 1 };
+    }
+  }
+  return null;
+}
+
+function makeSnippet(text: string, ranges: SearchRange[]) {
+  if (ranges.length === 0) {
+    const snippet = text.slice(0, SNIPPET_RADIUS * 2);
+    return {
+      snippet: snippet.length < text.length ? `${snippet}…` : snippet,
+      ranges: [],
+    };
+  }
+
+  const first = Math.min(...ranges.map(([start]) => start));
+  let start = Math.max(0, first - SNIPPET_RADIUS);
+  // Don't start in the middle of a word
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+  const end = Math.min(text.length, start + SNIPPET_RADIUS * 2);
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  return {
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]): SearchRange => [
+        s - start + prefix.length,
+        e - start + prefix.length,
+      ]),
+  };
+}
+
+/**
+ * The documents a reader of `locale` searches: each post in that language,
+ * or in the default one where it hasn't been translated, as the blog shows it.
+ */
+export function documentsForLocale(
+  documents: SearchDocument[],
+  locale: Locale,
+) {
+  const translated = new Set(
+    documents.filter((d) => d.locale === locale).map((d) => d.slug),
+  );
+  return documents.filter(
+    (d) =>
+      d.locale === locale ||
+      (d.locale === DEFAULT_LOCALE && !translated.has(d.slug)),
+  );
+}
+
+export function tokenizeQuery(query: string) {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+/**
+ * Ranks documents that match every term of `query`, with the offsets needed
+ * to highlight matches in the title and a short snippet.
+ */
+export function search(
+  documents: SearchDocument[],
+  query: string,
+  limit = 10,
+): SearchResult[] {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+
+  for (const document of documents) {
+    const fields = fieldTexts(document);
+    const matches: Match[] = [];
+
+    for (const term of terms) {
+      let best: Match | null = null;
+      for (const [field, text] of fields) {
+        const match = matchTerm(term, text);
+        if (!match) continue;
+        const score = match.score * FIELD_WEIGHTS[field];
+        if (!best || score > best.score) {
+          best = { ...match, field, score };
+        }
+      }
+      if (!best) break;
+      matches.push(best);
+    }
+
+    if (matches.length < terms.length) continue;
+
+    // Highlight every term wherever it occurs, not just where it scored best
+    const rangesIn = (text: string) =>
+      terms.flatMap((term) => {
+        const match = matchTerm(term, text);
+        return match ? [match.range] : [];
+      });
+
+    const titleRanges = rangesIn(document.title);
+    const snippetSource = [document.excerpt, document.body]
+      .map((text) => ({ text, ranges: rangesIn(text) }))
+      .reduce((best, candidate) =>
+        candidate.ranges.length > best.ranges.length ? candidate : best,
+      );
+    const { snippet, ranges: snippetRanges } = makeSnippet(
+      snippetSource.text,
+      snippetSource.ranges,
+    );
+
+    results.push({
+      document,
+      score: matches.reduce((sum, m) => sum + m.score, 0),
+      titleRanges,
+      snippet,
+      snippetRanges,
+    });
+  }
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score || (a.document.date > b.document.date ? -1 : 1),
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Splits `text` into plain and highlighted parts for rendering.
+ */
+export function splitHighlights(text: string, ranges: SearchRange[]) {
+  const merged = [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<SearchRange[]>((acc, [start, end]) => {
+      const last = acc[acc.length - 1];
+      if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+      else acc.push([start, end]);
+      return acc;
+    }, []);
+
+  const parts: { text: string; highlight: boolean }[] = [];
+  let cursor = 0;
+  for (const [start, end] of merged) {
+    if (start > cursor) {
+      parts.push({ text: text.slice(cursor, start), highlight: false });
+    }
+    parts.push({ text: text.slice(start, end), highlight: true });
+    cursor = end;
+  }
+  if (cursor < text.length) {
+    parts.push({ text: text.slice(cursor), highlight: false });
+  }
+  return parts;
+}
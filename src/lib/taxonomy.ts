@@ -0,0 +1,29 @@
+// Keeps letters and digits in any script, so a tag like "日本語" gets a slug
+// of its own; accents are dropped from Latin letters ("Café" → "cafe").
+export function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC")
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function tagHref(tag: string) {
+  return `/tags/${encodeURIComponent(slugify(tag))}`;
+}
+
+export function categoryHref(category: string) {
+  return `/category/${encodeURIComponent(slugify(category))}`;
+}
+
+// Route params arrive percent-encoded, so non-Latin slugs need decoding
+// before they are compared with the ones above.
+export function slugFromParam(param: string) {
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    return param;
+  }
+}
@@ -0,0 +1,31 @@
+import { DEFAULT_LOCALE, isLocale, splitLocalePath } from "@/lib/i18n/config";
+import { NextResponse, type NextRequest } from "next/server";
+
+/**
+ * Pages live under `app/[locale]`. The default locale is served without a
+ * prefix, so `/about` is rewritten to `/en/about` and a visit to `/en/about`
+ * is redirected back to `/about`; other locales keep their prefix.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const [, prefix] = pathname.split("/");
+  const url = request.nextUrl.clone();
+
+  if (prefix === DEFAULT_LOCALE) {
+    url.pathname = splitLocalePath(pathname).path;
+    return NextResponse.redirect(url, 308);
+  }
+  if (isLocale(prefix)) {
+    return NextResponse.next();
+  }
+
+  url.pathname =
+    pathname === "/" ? `/${DEFAULT_LOCALE}` : `/${DEFAULT_LOCALE}${pathname}`;
+  return NextResponse.rewrite(url);
+}
+
+export const config = {
+  // Route handlers, build output and files with an extension (feeds, the
+  // sitemap, the search index, everything in public/) are not localized.
+  matcher: ["/((?!api|_next|.*\\..*).*)"],
+};